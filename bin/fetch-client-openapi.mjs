@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+
+import { generateOpenApiClient } from '../dist/openapi.mjs';
+
+const USAGE = 'Usage: fetch-client-openapi <input> [--output <file>] [--import-path <module>]';
+
+function parseArgs(args) {
+  const options = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help' || arg === '-h') {
+      options.help = true;
+    } else if (arg === '--output' || arg === '-o') {
+      options.output = args[++i];
+    } else if (arg === '--import-path') {
+      options.importPath = args[++i];
+    } else if (arg.startsWith('-') || options.input) {
+      throw new Error(`Unexpected argument ${arg}`);
+    } else {
+      options.input = arg;
+    }
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (!options.input) throw new Error(USAGE);
+
+  const source = await readFile(options.input, 'utf8');
+  const output = generateOpenApiClient(source, { importPath: options.importPath });
+  if (options.output) {
+    await writeFile(options.output, output);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,264 @@
+import { FetchClientCacheEntry, FetchClientCacheStore } from '../types';
+
+const CACHEABLE_STATUS_CODES = [200, 203, 204];
+const CONDITIONAL_REQUEST_HEADERS = [
+  'if-none-match',
+  'if-modified-since',
+  'if-match',
+  'if-unmodified-since',
+  'if-range',
+];
+// Streams may never end, and are read as they arrive rather than replayed
+const STREAMING_CONTENT_TYPE_PATTERN = /^(text\/event-stream|application\/(x-)?ndjson)\b/i;
+
+type CacheControl = Map<string, string | true>;
+
+type CacheRequestInfo = {
+  key: string;
+  headers: Headers;
+  directives: CacheControl;
+  /**
+   * Whether the request is sent without reading or writing the cache.
+   */
+  isBypassed: boolean;
+};
+
+/**
+ * Private HTTP cache implementing the subset of RFC 9111 relevant to a client:
+ * freshness from Cache-Control and Expires, Vary matching, stale-while-revalidate,
+ * and revalidation through conditional requests.
+ */
+export default class FetchClientHttpCache {
+  constructor(private store: FetchClientCacheStore) {}
+
+  private parseCacheControl(header: string | null): CacheControl {
+    const directives: CacheControl = new Map();
+    if (!header) return directives;
+
+    for (const part of header.split(',')) {
+      const [name, ...rest] = part.trim().split('=');
+      if (!name) continue;
+      const value = rest.join('=').trim().replace(/^"|"$/g, '');
+      directives.set(name.trim().toLowerCase(), value || true);
+    }
+    return directives;
+  }
+
+  private getSeconds(directives: CacheControl, name: string): number | undefined {
+    const value = directives.get(name);
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) return undefined;
+    return Number(value);
+  }
+
+  private getFreshnessLifetime(headers: Headers, directives: CacheControl): number {
+    if (directives.has('no-cache')) return 0;
+
+    const maxAge = this.getSeconds(directives, 'max-age');
+    if (maxAge !== undefined) return maxAge * 1000;
+
+    const expires = headers.get('expires');
+    if (expires) {
+      const expiresAt = Date.parse(expires);
+      const date = Date.parse(headers.get('date') ?? '');
+      if (Number.isNaN(expiresAt)) return 0;
+      return Math.max(0, expiresAt - (Number.isNaN(date) ? Date.now() : date));
+    }
+
+    return 0;
+  }
+
+  private getAge(entry: FetchClientCacheEntry, headers: Headers): number {
+    const ageHeader = Number(headers.get('age'));
+    const initialAge = Number.isFinite(ageHeader) ? ageHeader * 1000 : 0;
+    return initialAge + Math.max(0, Date.now() - entry.storedAt);
+  }
+
+  private hasValidators(headers: Headers): boolean {
+    return headers.has('etag') || headers.has('last-modified');
+  }
+
+  private matchesVary(entry: FetchClientCacheEntry, requestHeaders: Headers): boolean {
+    return Object.entries(entry.vary).every(([name, value]) => requestHeaders.get(name) === value);
+  }
+
+  private toResponse(entry: FetchClientCacheEntry): Response {
+    const body = entry.status === 204 ? null : entry.body.slice(0);
+    return new Response(body, {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.headers,
+    });
+  }
+
+  private isStorable(response: Response): boolean {
+    const directives = this.parseCacheControl(response.headers.get('cache-control'));
+    return (
+      CACHEABLE_STATUS_CODES.includes(response.status) &&
+      !STREAMING_CONTENT_TYPE_PATTERN.test(response.headers.get('content-type') ?? '') &&
+      !directives.has('no-store') &&
+      response.headers.get('vary')?.trim() !== '*' &&
+      (this.getFreshnessLifetime(response.headers, directives) > 0 ||
+        this.hasValidators(response.headers))
+    );
+  }
+
+  private async writeEntry(
+    key: string,
+    response: Response,
+    requestHeaders: Headers
+  ): Promise<void> {
+    const varyValues: Record<string, string | null> = {};
+    response.headers
+      .get('vary')
+      ?.split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean)
+      .forEach((name) => (varyValues[name] = requestHeaders.get(name)));
+
+    await this.store.set(key, {
+      url: response.url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: Array.from(response.headers.entries()),
+      body: await response.arrayBuffer(),
+      vary: varyValues,
+      storedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Stores a response in the background, so that its body reaches the caller as it arrives.
+   */
+  private storeResponse(key: string, response: Response, requestHeaders: Headers): void {
+    // The copy is only made for storable responses, as an unread copy buffers the whole body
+    const copy = this.isStorable(response) ? response.clone() : undefined;
+    Promise.resolve()
+      .then(() => (copy ? this.writeEntry(key, copy, requestHeaders) : this.store.delete(key)))
+      .catch(() => {
+        // Responses whose body could not be read, for instance once aborted, are not stored
+      });
+  }
+
+  private async revalidate(
+    fetchFn: typeof fetch,
+    key: string,
+    url: URL | string,
+    init: RequestInit,
+    entry: FetchClientCacheEntry
+  ): Promise<Response> {
+    const requestHeaders = new Headers(init.headers);
+    const cachedHeaders = new Headers(entry.headers);
+
+    const conditionalHeaders = new Headers(requestHeaders);
+    const etag = cachedHeaders.get('etag');
+    const lastModified = cachedHeaders.get('last-modified');
+    if (etag) conditionalHeaders.set('if-none-match', etag);
+    if (lastModified) conditionalHeaders.set('if-modified-since', lastModified);
+
+    const response = await fetchFn(url, { ...init, headers: conditionalHeaders });
+
+    if (response.status !== 304) {
+      this.storeResponse(key, response, requestHeaders);
+      return response;
+    }
+
+    // Not modified: refresh the stored headers and serve the cached body
+    response.headers.forEach((value, name) => cachedHeaders.set(name, value));
+    const updatedEntry: FetchClientCacheEntry = {
+      ...entry,
+      headers: Array.from(cachedHeaders.entries()),
+      storedAt: Date.now(),
+    };
+    await this.store.set(key, updatedEntry);
+    return this.toResponse(updatedEntry);
+  }
+
+  private getRequestInfo(url: URL | string, init: RequestInit): CacheRequestInfo {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const headers = new Headers(init.headers);
+    const directives = this.parseCacheControl(headers.get('cache-control'));
+    const isBypassed =
+      method !== 'GET' ||
+      init.cache === 'no-store' ||
+      directives.has('no-store') ||
+      CONDITIONAL_REQUEST_HEADERS.some((name) => headers.has(name));
+    return { key: `${method} ${url.toString()}`, headers, directives, isBypassed };
+  }
+
+  /**
+   * Returns the stored response to a request when it can be served without the network:
+   * while fresh, or while stale within its stale-while-revalidate window, in which case it is
+   * revalidated in the background through fetchFn.
+   */
+  public async match(
+    fetchFn: typeof fetch,
+    url: URL | string,
+    init: RequestInit
+  ): Promise<Response | undefined> {
+    const {
+      key,
+      headers: requestHeaders,
+      directives: requestDirectives,
+      isBypassed,
+    } = this.getRequestInfo(url, init);
+    if (isBypassed || init.cache === 'reload') return undefined;
+
+    const entry = await this.store.get(key);
+    if (!entry || !this.matchesVary(entry, requestHeaders)) return undefined;
+
+    const cachedHeaders = new Headers(entry.headers);
+    const directives = this.parseCacheControl(cachedHeaders.get('cache-control'));
+    const lifetime = this.getFreshnessLifetime(cachedHeaders, directives);
+    const age = this.getAge(entry, cachedHeaders);
+
+    const mustRevalidate =
+      init.cache === 'no-cache' ||
+      requestDirectives.has('no-cache') ||
+      requestDirectives.get('max-age') === '0';
+
+    if (!mustRevalidate && (age < lifetime || init.cache === 'force-cache')) {
+      return this.toResponse(entry);
+    }
+
+    // Serve stale responses within the stale-while-revalidate window, refreshing in background
+    const staleWhileRevalidate = this.getSeconds(directives, 'stale-while-revalidate');
+    const canServeStale =
+      !mustRevalidate &&
+      !directives.has('must-revalidate') &&
+      staleWhileRevalidate !== undefined &&
+      age < lifetime + staleWhileRevalidate * 1000;
+
+    if (canServeStale) {
+      this.revalidate(fetchFn, key, url, { ...init, signal: undefined }, entry).catch(() => {
+        // Background revalidation failures keep the stale entry in place
+      });
+      return this.toResponse(entry);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Sends a request the cache could not answer through fetchFn, revalidating the stored
+   * response if there is one, and stores the response.
+   */
+  public async fetch(
+    fetchFn: typeof fetch,
+    url: URL | string,
+    init: RequestInit
+  ): Promise<Response> {
+    const { key, headers: requestHeaders, isBypassed } = this.getRequestInfo(url, init);
+    if (isBypassed) {
+      return fetchFn(url, init);
+    }
+
+    const entry = init.cache === 'reload' ? undefined : await this.store.get(key);
+    if (!entry || !this.matchesVary(entry, requestHeaders)) {
+      const response = await fetchFn(url, init);
+      this.storeResponse(key, response, requestHeaders);
+      return response;
+    }
+
+    return this.revalidate(fetchFn, key, url, init, entry);
+  }
+}
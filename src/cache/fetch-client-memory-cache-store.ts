@@ -0,0 +1,42 @@
+import { FetchClientCacheEntry, FetchClientCacheStore } from '../types';
+
+const DEFAULT_MAX_ENTRIES = 100;
+
+/**
+ * In-memory cache store that evicts the least recently used entry once full.
+ */
+export default class FetchClientMemoryCacheStore implements FetchClientCacheStore {
+  private entries = new Map<string, FetchClientCacheEntry>();
+
+  constructor(private maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public get(key: string): FetchClientCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    // Move the entry to the end to mark it as the most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  public set(key: string, entry: FetchClientCacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,23 @@
+import FetchClientError from '../errors/fetch-client-error';
+import { FetchClientRequest } from '../types';
+
+/**
+ * Custom error class for requests whose access token could not be refreshed in FetchClient.
+ * The refresh failure is available as `cause`.
+ * @template RequestBody - The type of the body content, defaults to `BodyInit`.
+ */
+export default class FetchClientAuthError<
+  RequestBody = BodyInit
+> extends FetchClientError<RequestBody> {
+  constructor(
+    request?: FetchClientRequest<RequestBody>,
+    response?: Response,
+    options?: ErrorOptions
+  ) {
+    super('FetchClient: Failed to refresh the access token', request, response);
+    this.name = FetchClientAuthError.name;
+    if (options && 'cause' in options) {
+      this.cause = options.cause;
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import FetchClientError from '../errors/fetch-client-error';
+import { FetchClientRequest } from '../types';
+
+/**
+ * Custom error class for requests rejected by an open circuit breaker in FetchClient.
+ * @template RequestBody - The type of the body content, defaults to `BodyInit`.
+ */
+export default class FetchClientCircuitOpenError<
+  RequestBody = BodyInit
+> extends FetchClientError<RequestBody> {
+  /**
+   * The circuit the request belongs to, which is its origin by default.
+   */
+  key: string;
+  /**
+   * Timestamp, in milliseconds, from which the circuit lets trial requests through.
+   */
+  retryAt: number;
+
+  constructor(key: string, retryAt: number, request: FetchClientRequest<RequestBody>) {
+    super(`FetchClient: Circuit for ${key} is open`, request);
+    this.name = FetchClientCircuitOpenError.name;
+    this.key = key;
+    this.retryAt = retryAt;
+  }
+}
@@ -1,21 +1,41 @@
-import { FetchClientRequest } from '../types';
+import { FetchClientProblemDetails, FetchClientRequest } from '../types';
 
 /**
  * Custom error class for FetchClient-related errors.
  * @template RequestBody - The type of the body content, defaults to `BodyInit`.
+ * @template ErrorBody - The type of the parsed error response body, defaults to `unknown`.
  */
-export default class FetchClientError<RequestBody = BodyInit> extends Error {
+export default class FetchClientError<RequestBody = BodyInit, ErrorBody = unknown> extends Error {
   response?: Response;
   request?: FetchClientRequest<RequestBody>;
   status?: number;
   statusText?: string;
+  /**
+   * The parsed body of the error response, if any.
+   */
+  data?: ErrorBody;
+  /**
+   * The problem details of an `application/problem+json` error response.
+   */
+  problem?: FetchClientProblemDetails;
 
-  constructor(message: string, request?: FetchClientRequest<RequestBody>, response?: Response) {
+  constructor(
+    message: string,
+    request?: FetchClientRequest<RequestBody>,
+    response?: Response,
+    data?: ErrorBody
+  ) {
     super(message);
     this.name = FetchClientError.name;
     this.response = response;
     this.request = request;
     this.status = response?.status;
     this.statusText = response?.statusText;
+    this.data = data;
+
+    const contentType = response?.headers.get('content-type') ?? '';
+    if (/application\/problem\+json/i.test(contentType) && data && typeof data === 'object') {
+      this.problem = data as FetchClientProblemDetails;
+    }
   }
 }
@@ -0,0 +1,30 @@
+import FetchClientError from '../errors/fetch-client-error';
+import { FetchClientRequest, FetchClientValidationIssue } from '../types';
+
+/**
+ * Custom error class for response bodies that fail schema validation in FetchClient.
+ * @template RequestBody - The type of the body content, defaults to `BodyInit`.
+ */
+export default class FetchClientValidationError<
+  RequestBody = BodyInit
+> extends FetchClientError<RequestBody> {
+  issues: readonly FetchClientValidationIssue[];
+
+  constructor(
+    issues: readonly FetchClientValidationIssue[],
+    request?: FetchClientRequest<RequestBody>,
+    response?: Response,
+    options?: ErrorOptions
+  ) {
+    let message = 'FetchClient: Response body failed validation';
+    if (issues.length > 0) {
+      message += ` - ${issues[0].message}`;
+    }
+    super(message, request, response);
+    this.name = FetchClientValidationError.name;
+    this.issues = issues;
+    if (options && 'cause' in options) {
+      this.cause = options.cause;
+    }
+  }
+}
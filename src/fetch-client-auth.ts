@@ -0,0 +1,49 @@
+import { FetchClientAuthOptions } from './types';
+
+const DEFAULT_SCHEME = 'Bearer';
+
+/**
+ * Provides access tokens and coordinates their refresh, so that any number of requests
+ * failing at the same time trigger a single refresh.
+ */
+export default class FetchClientAuth {
+  private refreshing?: Promise<string>;
+
+  constructor(private options: FetchClientAuthOptions) {}
+
+  public async getToken(): Promise<string | undefined> {
+    // Wait for a refresh in progress rather than sending a token that is being replaced
+    if (this.refreshing) return this.refreshing;
+    return (await this.options.getToken()) ?? undefined;
+  }
+
+  public formatHeader(token: string): string {
+    const scheme = this.options.scheme ?? DEFAULT_SCHEME;
+    return scheme ? `${scheme} ${token}` : token;
+  }
+
+  public shouldRefresh(response: Response): boolean {
+    if (this.options.shouldRefresh) return this.options.shouldRefresh(response);
+    return response.status === 401;
+  }
+
+  /**
+   * Resolves to a fresh token, joining the refresh in progress if there is one.
+   * @param staleToken The token the failed request was sent with.
+   */
+  public async refresh(staleToken: string | undefined): Promise<string> {
+    if (this.refreshing) return this.refreshing;
+
+    // Another request may already have refreshed the token since this one was sent
+    const currentToken = (await this.options.getToken()) ?? undefined;
+    if (this.refreshing) return this.refreshing;
+    if (currentToken !== undefined && currentToken !== staleToken) return currentToken;
+
+    this.refreshing = Promise.resolve()
+      .then(() => this.options.refreshToken())
+      .finally(() => {
+        this.refreshing = undefined;
+      });
+    return this.refreshing;
+  }
+}
@@ -0,0 +1,125 @@
+import {
+  FetchClientCircuitBreakerOptions,
+  FetchClientCircuitState,
+  FetchClientCircuitStateChangeEvent,
+} from './types';
+
+const DEFAULT_FAILURE_RATE_THRESHOLD = 0.5;
+const DEFAULT_MINIMUM_REQUESTS = 10;
+const DEFAULT_WINDOW_SIZE = 20;
+const DEFAULT_COOLDOWN = 30_000;
+const DEFAULT_HALF_OPEN_REQUESTS = 1;
+
+type FetchClientCircuit = {
+  state: FetchClientCircuitState;
+  /**
+   * Outcomes of the most recent requests, where true is a failure.
+   */
+  outcomes: boolean[];
+  openedAt: number;
+  trialRequests: number;
+};
+
+/**
+ * Circuit breaker with one circuit per key, based on the failure rate of a sliding window
+ * of the most recent requests.
+ */
+export default class FetchClientCircuitBreaker {
+  private circuits = new Map<string, FetchClientCircuit>();
+
+  constructor(
+    private options: FetchClientCircuitBreakerOptions,
+    private onStateChange: (event: FetchClientCircuitStateChangeEvent) => void
+  ) {}
+
+  private getCircuit(key: string): FetchClientCircuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], openedAt: 0, trialRequests: 0 };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private transition(key: string, circuit: FetchClientCircuit, state: FetchClientCircuitState) {
+    const previousState = circuit.state;
+    if (previousState === state) return;
+
+    circuit.state = state;
+    circuit.trialRequests = 0;
+    if (state === 'open') {
+      circuit.openedAt = Date.now();
+    } else if (state === 'closed') {
+      circuit.outcomes = [];
+    }
+    this.onStateChange({ key, previousState, state });
+  }
+
+  public getState(key: string): FetchClientCircuitState {
+    const circuit = this.circuits.get(key);
+    if (!circuit) return 'closed';
+    // Report an open circuit whose cooldown has elapsed as half-open
+    if (circuit.state === 'open' && Date.now() >= this.getRetryAt(key)) {
+      this.transition(key, circuit, 'half-open');
+    }
+    return circuit.state;
+  }
+
+  /**
+   * Timestamp, in milliseconds, from which an open circuit lets trial requests through.
+   */
+  public getRetryAt(key: string): number {
+    const circuit = this.circuits.get(key);
+    if (!circuit || circuit.state !== 'open') return Date.now();
+    return circuit.openedAt + (this.options.cooldown ?? DEFAULT_COOLDOWN);
+  }
+
+  /**
+   * Checks whether a request may be sent, counting it as a trial request when half-open.
+   * Every allowed request must be followed by a call to `record`.
+   */
+  public allowRequest(key: string): boolean {
+    const state = this.getState(key);
+    if (state === 'closed') return true;
+    if (state === 'open') return false;
+
+    const circuit = this.getCircuit(key);
+    if (circuit.trialRequests >= (this.options.halfOpenRequests ?? DEFAULT_HALF_OPEN_REQUESTS)) {
+      return false;
+    }
+    circuit.trialRequests++;
+    return true;
+  }
+
+  /**
+   * Records the outcome of an allowed request.
+   * @param failed Whether the request failed, or undefined if it should not be counted.
+   */
+  public record(key: string, failed: boolean | undefined): void {
+    const circuit = this.getCircuit(key);
+
+    if (circuit.state === 'half-open') {
+      circuit.trialRequests = Math.max(0, circuit.trialRequests - 1);
+      if (failed === true) this.transition(key, circuit, 'open');
+      if (failed === false) this.transition(key, circuit, 'closed');
+      return;
+    }
+
+    if (failed === undefined || circuit.state !== 'closed') return;
+
+    circuit.outcomes.push(failed);
+    const windowSize = this.options.windowSize ?? DEFAULT_WINDOW_SIZE;
+    if (circuit.outcomes.length > windowSize) {
+      circuit.outcomes.splice(0, circuit.outcomes.length - windowSize);
+    }
+
+    const minimumRequests = this.options.minimumRequests ?? DEFAULT_MINIMUM_REQUESTS;
+    if (circuit.outcomes.length < minimumRequests) return;
+
+    const failures = circuit.outcomes.filter(Boolean).length;
+    const threshold = this.options.failureRateThreshold ?? DEFAULT_FAILURE_RATE_THRESHOLD;
+    if (failures / circuit.outcomes.length >= threshold) {
+      this.transition(key, circuit, 'open');
+    }
+  }
+}
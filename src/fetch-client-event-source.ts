@@ -0,0 +1,246 @@
+import FetchClientError from './errors/fetch-client-error';
+import { FetchClientResponse, FetchClientServerSentEvent } from './types';
+
+type FetchClientEventSourceOptions = {
+  connect: (lastEventId: string | undefined, signal: AbortSignal) => Promise<FetchClientResponse>;
+  /**
+   * Returns the delay before reconnecting, or false to stop. `connectionLost` tells whether the
+   * error ended an open connection, rather than preventing one.
+   */
+  getReconnectDelay: (
+    attempt: number,
+    error: unknown,
+    retry: number | undefined,
+    connectionLost: boolean
+  ) => number | false;
+  wait: (ms: number, signal: AbortSignal) => Promise<void>;
+  onOpen?: (response: FetchClientResponse) => void;
+  onEvent?: (event: FetchClientServerSentEvent) => void;
+  onError?: (error: unknown) => void;
+  onClose?: () => void;
+};
+
+type FetchClientEventSourceIterator = {
+  events: FetchClientServerSentEvent[];
+  waiting?: {
+    resolve: (result: IteratorResult<FetchClientServerSentEvent>) => void;
+    reject: (error: unknown) => void;
+  };
+};
+
+// Splits lines on CRLF, CR or LF, leaving a trailing CR until the next chunk shows if LF follows
+const LINE_SEPARATOR_PATTERN = /\r\n|\r(?!$)|\n/;
+
+/**
+ * Reads Server-Sent Events from a connection that is reopened when lost, resuming from the
+ * last event ID. Events are delivered to the `onEvent` callback and to async iterators.
+ */
+export default class FetchClientEventSource implements AsyncIterable<FetchClientServerSentEvent> {
+  private controller = new AbortController();
+  private reader?: ReadableStreamDefaultReader<Uint8Array>;
+  private iterators = new Set<FetchClientEventSourceIterator>();
+  private failure?: { error: unknown };
+  private closed = false;
+  private id = '';
+  private retry?: number;
+  private eventType = '';
+  private dataLines: string[] = [];
+
+  constructor(private options: FetchClientEventSourceOptions) {
+    this.run().catch((error) => this.fail(error));
+  }
+
+  /**
+   * The ID of the last event received.
+   */
+  public get lastEventId(): string {
+    return this.id;
+  }
+
+  /**
+   * Closes the connection for good, ending the iterators once they have read the events
+   * already received.
+   */
+  public close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.controller.abort();
+    this.reader?.cancel().catch(() => undefined);
+    this.options.onClose?.();
+    this.iterators.forEach((iterator) => {
+      if (!iterator.waiting) return;
+      if (this.failure) {
+        iterator.waiting.reject(this.failure.error);
+      } else {
+        iterator.waiting.resolve({ value: undefined, done: true });
+      }
+      iterator.waiting = undefined;
+    });
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<FetchClientServerSentEvent> {
+    const iterator: FetchClientEventSourceIterator = { events: [] };
+    this.iterators.add(iterator);
+    return {
+      next: () => {
+        const event = iterator.events.shift();
+        if (event) return Promise.resolve({ value: event, done: false });
+        if (this.closed) {
+          this.iterators.delete(iterator);
+          return this.failure
+            ? Promise.reject(this.failure.error)
+            : Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve, reject) => {
+          iterator.waiting = { resolve, reject };
+        });
+      },
+      // Leaving a for await loop closes the connection
+      return: () => {
+        this.iterators.delete(iterator);
+        this.close();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+
+  private async run() {
+    let attempt = 0;
+    while (!this.closed) {
+      let error: unknown;
+      let connectionLost = false;
+      try {
+        const response = await this.options.connect(this.id || undefined, this.controller.signal);
+        // A 204 response tells the client to stop reconnecting
+        if (response.status === 204) {
+          this.close();
+          return;
+        }
+        const contentType = response.headers.get('content-type') ?? '';
+        if (!/^text\/event-stream\b/i.test(contentType)) {
+          throw new FetchClientError(
+            `FetchClient: Expected a text/event-stream response, got ${contentType || 'none'}`,
+            response.request,
+            response
+          );
+        }
+        this.notify(() => this.options.onOpen?.(response));
+        if (this.closed) return;
+        attempt = 0;
+        connectionLost = true;
+        await this.read(response.body);
+      } catch (caughtError) {
+        error = caughtError;
+      }
+      if (this.closed) return;
+
+      if (error !== undefined) this.notify(() => this.options.onError?.(error));
+      if (this.closed) return;
+      const delay = this.options.getReconnectDelay(attempt, error, this.retry, connectionLost);
+      if (delay === false) {
+        if (error !== undefined) this.failure = { error };
+        this.close();
+        return;
+      }
+      attempt++;
+      try {
+        await this.options.wait(delay, this.controller.signal);
+      } catch {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Calls a user callback, closing the source with the error it throws.
+   */
+  private notify(callback: () => void) {
+    try {
+      callback();
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  private fail(error: unknown) {
+    this.failure ??= { error };
+    this.close();
+  }
+
+  private async read(body: ReadableStream<Uint8Array> | null) {
+    if (!body) return;
+    // Events left incomplete by a lost connection are discarded
+    this.eventType = '';
+    this.dataLines = [];
+
+    const reader = body.getReader();
+    this.reader = reader;
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split(LINE_SEPARATOR_PATTERN);
+      buffer = lines.pop() ?? '';
+      lines.forEach((line) => this.parseLine(line));
+      if (done || this.closed) return;
+    }
+  }
+
+  private parseLine(line: string) {
+    if (!line) {
+      this.dispatch();
+      return;
+    }
+    // Lines starting with a colon are comments, often sent to keep the connection alive
+    if (line.startsWith(':')) return;
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.id = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  private dispatch() {
+    const { eventType, dataLines } = this;
+    this.eventType = '';
+    this.dataLines = [];
+    // Events following one whose callback closed the source are dropped
+    if (!dataLines.length || this.closed) return;
+
+    const event: FetchClientServerSentEvent = {
+      event: eventType || 'message',
+      data: dataLines.join('\n'),
+      id: this.id,
+      retry: this.retry,
+    };
+    this.notify(() => this.options.onEvent?.(event));
+    if (this.closed) return;
+    this.iterators.forEach((iterator) => {
+      if (iterator.waiting) {
+        iterator.waiting.resolve({ value: event, done: false });
+        iterator.waiting = undefined;
+      } else {
+        iterator.events.push(event);
+      }
+    });
+  }
+}
@@ -0,0 +1,68 @@
+import { FetchClientProgressEvent } from './types';
+
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Counts the bytes of a body as it is streamed and reports the progress of the transfer.
+ */
+export default class FetchClientProgress {
+  private loaded = 0;
+  private startedAt = Date.now();
+
+  constructor(
+    private onProgress: (event: FetchClientProgressEvent) => void,
+    private total?: number
+  ) {}
+
+  private report(bytes: number) {
+    this.loaded += bytes;
+    const elapsed = Date.now() - this.startedAt;
+    this.onProgress({
+      loaded: this.loaded,
+      total: this.total,
+      percent: this.total ? Math.min(100, (this.loaded / this.total) * 100) : undefined,
+      rate: elapsed > 0 ? (this.loaded / elapsed) * 1000 : 0,
+    });
+  }
+
+  /**
+   * Streams a blob in chunks, reporting each chunk as it is read.
+   */
+  public streamBlob(blob: Blob): ReadableStream<Uint8Array> {
+    let offset = 0;
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        if (offset >= blob.size) {
+          controller.close();
+          return;
+        }
+        const chunk = new Uint8Array(
+          await blob.slice(offset, offset + UPLOAD_CHUNK_SIZE).arrayBuffer()
+        );
+        offset += chunk.byteLength;
+        controller.enqueue(chunk);
+        this.report(chunk.byteLength);
+      },
+    });
+  }
+
+  /**
+   * Passes a stream through, reporting each chunk as it is consumed.
+   * Like fetch, this keeps the stream locked for good.
+   */
+  public track(stream: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+    const reader = stream.getReader();
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+        this.report(value.byteLength);
+      },
+      cancel: (reason) => reader.cancel(reason),
+    });
+  }
+}
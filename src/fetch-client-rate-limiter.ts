@@ -0,0 +1,109 @@
+import { FetchClientRateLimitOptions } from './types';
+
+const DEFAULT_INTERVAL = 1000;
+// Values above this are treated as Unix timestamps rather than seconds from now
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+type FetchClientTokenBucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+/**
+ * Token bucket rate limiter with one bucket per key.
+ * Tokens are reserved in FIFO order, so a bucket may go negative while requests wait for refills.
+ */
+export default class FetchClientRateLimiter {
+  private buckets = new Map<string, FetchClientTokenBucket>();
+
+  constructor(private options: FetchClientRateLimitOptions) {}
+
+  private get capacity(): number {
+    return this.options.limit;
+  }
+
+  private get refillRate(): number {
+    return this.options.limit / (this.options.interval ?? DEFAULT_INTERVAL);
+  }
+
+  private getBucket(key: string): FetchClientTokenBucket {
+    const now = Date.now();
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: this.capacity, updatedAt: now };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+    // Refill the tokens accumulated since the last update
+    bucket.tokens = Math.min(
+      this.capacity,
+      bucket.tokens + (now - bucket.updatedAt) * this.refillRate
+    );
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  /**
+   * Takes a token synchronously, if one is available.
+   * @returns True if a token was taken, false if the request must wait.
+   */
+  public tryAcquire(key: string): boolean {
+    const bucket = this.getBucket(key);
+    if (bucket.tokens < 1) return false;
+    bucket.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Reserves a token and waits until it is available.
+   * Rejects with the signal's reason, returning the token, if it aborts while waiting.
+   */
+  public async acquire(key: string, signal?: AbortSignal | null): Promise<void> {
+    signal?.throwIfAborted();
+
+    const bucket = this.getBucket(key);
+    bucket.tokens -= 1;
+    if (bucket.tokens >= 0) return;
+
+    const wait = Math.ceil(-bucket.tokens / this.refillRate);
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        this.getBucket(key).tokens += 1;
+        reject(signal?.reason);
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, wait);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Adjusts a bucket from the RateLimit-Remaining and RateLimit-Reset headers of a response,
+   * or their X-RateLimit-* equivalents.
+   */
+  public update(key: string, headers: Headers): void {
+    const remaining = Number(
+      headers.get('ratelimit-remaining') ?? headers.get('x-ratelimit-remaining') ?? NaN
+    );
+    if (!Number.isFinite(remaining)) return;
+
+    const bucket = this.getBucket(key);
+    if (remaining > 0) {
+      bucket.tokens = Math.min(bucket.tokens, remaining);
+      return;
+    }
+
+    const reset = Number(headers.get('ratelimit-reset') ?? headers.get('x-ratelimit-reset') ?? NaN);
+    if (!Number.isFinite(reset)) {
+      bucket.tokens = Math.min(bucket.tokens, 0);
+      return;
+    }
+
+    const resetIn = reset > EPOCH_SECONDS_THRESHOLD ? reset * 1000 - Date.now() : reset * 1000;
+    // Hold the bucket empty until the reset, when a single token becomes available
+    bucket.tokens = Math.min(bucket.tokens, 1 - Math.max(0, resetIn) * this.refillRate);
+  }
+}
@@ -0,0 +1,105 @@
+import { FetchClientQueueStats } from './types';
+
+type FetchClientQueueItem = {
+  priority: number;
+  enqueuedAt: number;
+  start: () => void;
+};
+
+/**
+ * Limits how many requests run at the same time, queueing the rest by priority.
+ * Requests with a higher priority are started first; equal priorities run in FIFO order.
+ */
+export default class FetchClientRequestQueue {
+  private active = 0;
+  private pending: FetchClientQueueItem[] = [];
+  private totalWaitTime = 0;
+  private dequeuedCount = 0;
+
+  constructor(private concurrency: number = Infinity) {}
+
+  public setConcurrency(concurrency: number): void {
+    this.concurrency = concurrency > 0 ? concurrency : Infinity;
+    this.drain();
+  }
+
+  public getStats(): FetchClientQueueStats {
+    const now = Date.now();
+    return {
+      concurrency: this.concurrency,
+      active: this.active,
+      pending: this.pending.length,
+      averageWaitTime: this.dequeuedCount ? this.totalWaitTime / this.dequeuedCount : 0,
+      longestWaitTime: this.pending.reduce((max, item) => Math.max(max, now - item.enqueuedAt), 0),
+    };
+  }
+
+  /**
+   * Takes a free slot synchronously, if one is available and nothing is queued.
+   * @returns A function that releases the slot, or undefined if the request must be queued.
+   */
+  public tryAcquire(): (() => void) | undefined {
+    if (this.active >= this.concurrency || this.pending.length > 0) return undefined;
+
+    this.active++;
+    this.dequeuedCount++;
+    return this.createRelease();
+  }
+
+  /**
+   * Waits for a free slot and resolves to a function that releases it.
+   * Rejects with the signal's reason if it aborts while the request is still queued.
+   */
+  public acquire(priority: number = 0, signal?: AbortSignal | null): Promise<() => void> {
+    signal?.throwIfAborted();
+
+    const release = this.tryAcquire();
+    if (release) return Promise.resolve(release);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.pending = this.pending.filter((item) => item !== queueItem);
+        reject(signal?.reason);
+      };
+
+      const queueItem: FetchClientQueueItem = {
+        priority,
+        enqueuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(this.createRelease());
+        },
+      };
+
+      // Insert after every item with the same or higher priority
+      const index = this.pending.findIndex((item) => item.priority < priority);
+      if (index === -1) {
+        this.pending.push(queueItem);
+      } else {
+        this.pending.splice(index, 0, queueItem);
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.drain();
+    };
+  }
+
+  private drain(): void {
+    while (this.active < this.concurrency && this.pending.length > 0) {
+      const item = this.pending.shift()!;
+      this.active++;
+      this.dequeuedCount++;
+      this.totalWaitTime += Date.now() - item.enqueuedAt;
+      item.start();
+    }
+  }
+}
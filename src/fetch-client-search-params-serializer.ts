@@ -0,0 +1,63 @@
+import {
+  FetchClientSearchParamsObject,
+  FetchClientSearchParamsSerializerOptions,
+  FetchClientSearchParamValue,
+} from './types';
+
+/**
+ * Serializes nested search parameter objects, e.g. `{ filter: { status: 'open' } }`
+ * becomes `filter[status]=open`.
+ */
+export default class FetchClientSearchParamsSerializer {
+  constructor(private options: FetchClientSearchParamsSerializerOptions = {}) {}
+
+  public serialize(params: FetchClientSearchParamsObject): URLSearchParams {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => this.append(searchParams, key, value));
+    return searchParams;
+  }
+
+  private isSkipped(value: FetchClientSearchParamValue): boolean {
+    return value === undefined || (value === null && (this.options.skipNull ?? true));
+  }
+
+  private isScalar(value: FetchClientSearchParamValue): boolean {
+    return value === null || value instanceof Date || typeof value !== 'object';
+  }
+
+  private formatScalar(value: FetchClientSearchParamValue): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) {
+      return this.options.serializeDate?.(value) ?? value.toISOString();
+    }
+    return String(value);
+  }
+
+  private append(searchParams: URLSearchParams, key: string, value: FetchClientSearchParamValue) {
+    if (this.isSkipped(value)) return;
+
+    if (Array.isArray(value)) {
+      const items = value.filter((item) => !this.isSkipped(item));
+      const arrayFormat = this.options.arrayFormat ?? 'repeat';
+      // Nested objects cannot be joined, so they are repeated instead
+      if (arrayFormat === 'comma' && items.every((item) => this.isScalar(item))) {
+        if (items.length) {
+          searchParams.append(key, items.map((item) => this.formatScalar(item)).join(','));
+        }
+        return;
+      }
+      const itemKey = arrayFormat === 'brackets' ? `${key}[]` : key;
+      items.forEach((item) => this.append(searchParams, itemKey, item));
+      return;
+    }
+
+    if (!this.isScalar(value)) {
+      Object.entries(value as FetchClientSearchParamsObject).forEach(([name, item]) =>
+        this.append(searchParams, `${key}[${name}]`, item)
+      );
+      return;
+    }
+
+    searchParams.append(key, this.formatScalar(value));
+  }
+}
@@ -1,22 +1,113 @@
+import FetchClientHttpCache from './cache/fetch-client-http-cache';
+import FetchClientMemoryCacheStore from './cache/fetch-client-memory-cache-store';
+import FetchClientAuthError from './errors/fetch-client-auth-error';
+import FetchClientCircuitOpenError from './errors/fetch-client-circuit-open-error';
 import FetchClientError from './errors/fetch-client-error';
 import FetchClientTimeoutError from './errors/fetch-client-timeout-error';
+import FetchClientValidationError from './errors/fetch-client-validation-error';
+import FetchClientAuth from './fetch-client-auth';
+import FetchClientCircuitBreaker from './fetch-client-circuit-breaker';
 import FetchClientEventEmitter from './fetch-client-event-emitter';
+import FetchClientEventSource from './fetch-client-event-source';
+import FetchClientProgress from './fetch-client-progress';
+import FetchClientRateLimiter from './fetch-client-rate-limiter';
+import FetchClientRequestQueue from './fetch-client-request-queue';
+import FetchClientSearchParamsSerializer from './fetch-client-search-params-serializer';
 import {
   AfterResponseHook,
+  BeforeErrorHook,
   BeforeRequestHook,
+  BeforeRetryHook,
+  FetchClientBackoffOptions,
+  FetchClientBodySerializer,
+  FetchClientBuiltInMiddleware,
+  FetchClientCallInit,
+  FetchClientCacheStore,
+  FetchClientCircuitState,
   FetchClientDefaults,
   FetchClientHookMap,
   FetchClientInit,
+  FetchClientMiddleware,
+  FetchClientMiddlewareNext,
+  FetchClientMiddlewareOptions,
+  FetchClientMultipartValue,
+  FetchClientProblemDetails,
+  FetchClientProgressEvent,
+  FetchClientQueueStats,
   FetchClientRequest,
   FetchClientRequestWithURL,
   FetchClientResponse,
+  FetchClientResponsePromise,
+  FetchClientResponseSchema,
+  FetchClientResponseType,
   FetchClientRetryOptions,
+  FetchClientRouteCaller,
+  FetchClientRouteMap,
+  FetchClientSseInit,
+  FetchClientSearchParams,
+  FetchClientSearchParamsObject,
   URLSearchParamsInit,
   ValueOrCallback,
   FetchClientEventEmitterEventMap,
+  FetchClientExtendOptions,
 } from './types';
 
 const DEFAULT_TIMEOUT = 10_000;
+const DEFAULT_BACKOFF_BASE = 300;
+const DEFAULT_BACKOFF_FACTOR = 2;
+const DEFAULT_BACKOFF_MAX = 30_000;
+const RETRY_AFTER_STATUS_CODES = [429, 503];
+const DEFAULT_MAX_RETRY_AFTER = 60_000;
+const DEFAULT_RETRY_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE'];
+const DEFAULT_RETRY_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504];
+const DEFAULT_DEDUPE_METHODS = ['GET', 'HEAD'];
+const DEFAULT_DEDUPE_HEADERS = ['accept', 'authorization'];
+const QUEUE_PRIORITIES: Record<RequestPriority, number> = { high: 1, auto: 0, low: -1 };
+const RESPONSE_TYPE_ACCEPT_HEADERS: Record<FetchClientResponseType, string> = {
+  json: 'application/json',
+  text: 'text/*',
+  blob: '*/*',
+  arrayBuffer: '*/*',
+};
+const BUILT_IN_MIDDLEWARES: FetchClientBuiltInMiddleware[] = [
+  'beforeRequest',
+  'dedupe',
+  'retry',
+  'auth',
+  'afterResponse',
+  'httpCache',
+  'circuitBreaker',
+  'queue',
+  'timeout',
+];
+const DEFAULT_MIDDLEWARE_ANCHOR: FetchClientBuiltInMiddleware = 'retry';
+const FORM_CONTENT_TYPE = 'application/x-www-form-urlencoded;charset=UTF-8';
+const DEFAULT_RECONNECT_DELAY = 3000;
+const PATH_TEMPLATE_PATTERN = /^([a-z][a-z\d+.-]*:\/\/[^/?#]*)?([^?#]*)([\s\S]*)$/i;
+const PATH_PARAM_PATTERN = /:([A-Za-z_][A-Za-z0-9_]*)|\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+const ENCODED_PATH_PARAM_PATTERN = /%7B([A-Za-z_][A-Za-z0-9_]*)%7D/gi;
+
+type FetchClientMiddlewareRegistration = {
+  middleware: FetchClientMiddleware;
+  anchor: FetchClientBuiltInMiddleware;
+  placement: 'before' | 'after';
+};
+
+/**
+ * State shared by the built-in middlewares of a single fetch call.
+ */
+type FetchClientPipelineContext = {
+  startedAt: number;
+  attempts: number;
+  /**
+   * The request as modified by the beforeRequest hooks.
+   */
+  request?: FetchClientRequestWithURL;
+  /**
+   * Whether the current attempt got past the queue, so that its outcome reflects the upstream.
+   */
+  dequeued?: boolean;
+};
 
 export default class FetchClient extends FetchClientEventEmitter<FetchClientEventEmitterEventMap> {
   constructor(defaults: FetchClientInit = {}) {
@@ -32,9 +123,41 @@ export default class FetchClient extends FetchClientEventEmitter<FetchClientEven
     isResponseError: this.defaultIsResponseError,
   };
 
+  private inFlightRequests = new Map<
+    string,
+    {
+      promise: Promise<Response>;
+      controller: AbortController;
+      context: FetchClientPipelineContext;
+      subscribers: number;
+    }
+  >();
+
+  private defaultCacheStore?: FetchClientCacheStore;
+
+  private requestQueue = new FetchClientRequestQueue();
+
+  private rateLimiter?: FetchClientRateLimiter;
+
+  private circuitBreaker?: FetchClientCircuitBreaker;
+
+  private auth?: FetchClientAuth;
+
+  private parent?: FetchClient;
+
+  // Weakly held, so that children created per request or per tenant can be garbage collected
+  private defaultsChildren = new Set<WeakRef<FetchClient>>();
+
+  private middlewares: FetchClientMiddlewareRegistration[] = [];
+
+  // Errors the fetch function rejected with, as opposed to errors thrown by hooks or serializers
+  private transportErrors = new WeakSet<object>();
+
   private hooks = {
     beforeRequest: new Set<BeforeRequestHook>(),
     afterResponse: new Set<AfterResponseHook>(),
+    beforeError: new Set<BeforeErrorHook>(),
+    beforeRetry: new Set<BeforeRetryHook>(),
   };
 
   private defaultIsResponseError(response: Response): boolean {
@@ -68,6 +191,23 @@ export default class FetchClient extends FetchClientEventEmitter<FetchClientEven
     return merged;
   }
 
+  private serializeSearchParams(
+    searchParams: FetchClientSearchParams | undefined,
+    serializer: FetchClientInit['searchParamsSerializer']
+  ): URLSearchParamsInit | undefined {
+    // Only plain objects are serialized, anything else is passed to URLSearchParams as is
+    if (!searchParams || typeof searchParams !== 'object' || Array.isArray(searchParams)) {
+      return searchParams as URLSearchParamsInit | undefined;
+    }
+    const prototype = Object.getPrototypeOf(searchParams);
+    if (prototype !== Object.prototype && prototype !== null) {
+      return searchParams as URLSearchParamsInit;
+    }
+    const params = searchParams as FetchClientSearchParamsObject;
+    if (typeof serializer === 'function') return serializer(params);
+    return new FetchClientSearchParamsSerializer(serializer).serialize(params);
+  }
+
   private defaultResolveUrl(url?: string | URL, baseUrl?: string): URL {
     if (url instanceof URL) return url;
     if (!url) {
@@ -91,26 +231,344 @@ export default class FetchClient extends FetchClientEventEmitter<FetchClientEven
     return response as FetchClientResponse<ResponseBody, RequestBody>;
   }
 
-  private async handleRetryDelay(
+  private defaultRetryOn<RequestBody = BodyInit>(
+    options: FetchClientRetryOptions,
+    request: FetchClientRequest<RequestBody>,
+    error: unknown
+  ): boolean {
+    const method = (request.method ?? 'GET').toUpperCase();
+    const methods = (options.methods ?? DEFAULT_RETRY_METHODS).map((m) => m.toUpperCase());
+    if (!methods.includes(method)) return false;
+
+    if (error instanceof FetchClientTimeoutError) return true;
+
+    if (error instanceof FetchClientError) {
+      const statusCodes = options.statusCodes ?? DEFAULT_RETRY_STATUS_CODES;
+      return error.status !== undefined && statusCodes.includes(error.status);
+    }
+
+    // Only network errors are worth another attempt, while errors thrown by hooks, serializers
+    // or token refreshes would be thrown again
+    return this.isTransportError(error);
+  }
+
+  private markTransportError(error: unknown) {
+    if (typeof error === 'object' && error !== null) this.transportErrors.add(error);
+  }
+
+  private isTransportError(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && this.transportErrors.has(error);
+  }
+
+  private parseRetryAfter(error: unknown): number | undefined {
+    if (!(error instanceof FetchClientError) || !error.response) return undefined;
+    if (!RETRY_AFTER_STATUS_CODES.includes(error.response.status)) return undefined;
+
+    const header = error.response.headers.get('retry-after')?.trim();
+    if (!header) return undefined;
+
+    // Delay in seconds, e.g. "Retry-After: 120"
+    if (/^\d+$/.test(header)) {
+      return Number(header) * 1000;
+    }
+
+    // HTTP-date, e.g. "Retry-After: Wed, 21 Oct 2015 07:28:00 GMT"
+    const date = Date.parse(header);
+    if (Number.isNaN(date)) return undefined;
+
+    return Math.max(0, date - Date.now());
+  }
+
+  private computeBackoffDelay(
+    backoff: FetchClientBackoffOptions,
+    attempt: number,
+    previousDelay?: number
+  ): number {
+    const base = backoff.base ?? DEFAULT_BACKOFF_BASE;
+    const factor = backoff.factor ?? DEFAULT_BACKOFF_FACTOR;
+    const max = backoff.max ?? DEFAULT_BACKOFF_MAX;
+
+    let delay: number;
+    switch (backoff.strategy ?? 'exponential') {
+      case 'linear':
+        delay = base + base * factor * attempt;
+        break;
+      case 'decorrelated-jitter': {
+        const upper = Math.max(base, (previousDelay ?? base) * factor);
+        return Math.min(max, base + Math.random() * (upper - base));
+      }
+      case 'exponential':
+      default:
+        delay = base * factor ** attempt;
+        break;
+    }
+
+    delay = Math.min(max, delay);
+    return backoff.jitter ? Math.random() * delay : delay;
+  }
+
+  private getRetryDelay(
     options: FetchClientRetryOptions | false,
     attempt: number,
-    error: unknown
-  ): Promise<void> {
-    if (!options || options.delay === undefined) return;
+    error: unknown,
+    previousDelay?: number
+  ): number | false {
+    if (!options) return 0;
+
+    // Server-provided delays take precedence over any computed delay
+    if (options.respectRetryAfter !== false) {
+      const retryAfter = this.parseRetryAfter(error);
+      // Give up rather than holding the request for as long as the server asks
+      if (
+        retryAfter !== undefined &&
+        retryAfter > (options.maxRetryAfter ?? DEFAULT_MAX_RETRY_AFTER)
+      ) {
+        return false;
+      }
+      if (retryAfter !== undefined) return retryAfter;
+    }
+
+    if (options.delay !== undefined) {
+      return typeof options.delay === 'function' ? options.delay(attempt, error) : options.delay;
+    }
+
+    if (options.backoff) {
+      return this.computeBackoffDelay(options.backoff, attempt, previousDelay);
+    }
+
+    return 0;
+  }
+
+  private async validateResponseBody<ResponseBody, RequestBody = BodyInit>(
+    data: unknown,
+    response: FetchClientResponse<ResponseBody, RequestBody>
+  ): Promise<ResponseBody> {
+    const schema = response.request.schema as FetchClientResponseSchema<ResponseBody> | undefined;
+    if (!schema) return data as ResponseBody;
+
+    if (typeof schema === 'function') {
+      try {
+        return await schema(data);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new FetchClientValidationError([{ message }], response.request, response, {
+          cause: error,
+        });
+      }
+    }
 
-    const ms = typeof options.delay === 'function' ? options.delay(attempt, error) : options.delay;
+    const result = await schema['~standard'].validate(data);
+    if (result.issues) {
+      throw new FetchClientValidationError(result.issues, response.request, response);
+    }
+    return result.value;
+  }
 
-    await new Promise((resolve) => setTimeout(resolve, ms));
+  private async parseJsonBody<ResponseBody, RequestBody = BodyInit>(
+    response: FetchClientResponse<ResponseBody, RequestBody>
+  ): Promise<ResponseBody> {
+    let data: unknown;
+    // Responses without content resolve to undefined instead of failing to parse
+    if (response.status !== 204 && response.status !== 205) {
+      const text = await response.text();
+      data = text.trim() ? JSON.parse(text) : undefined;
+    }
+    return this.validateResponseBody(data, response);
   }
 
-  private normalizeResponseStatusErrorMessage(status: number, statusText?: string): string {
+  private async parseResponseBody<ResponseBody, RequestBody = BodyInit>(
+    response: FetchClientResponse<ResponseBody, RequestBody>,
+    responseType: FetchClientResponseType
+  ): Promise<ResponseBody> {
+    switch (responseType) {
+      case 'text':
+        return (await response.text()) as ResponseBody;
+      case 'blob':
+        return (await response.blob()) as ResponseBody;
+      case 'arrayBuffer':
+        return (await response.arrayBuffer()) as ResponseBody;
+      case 'json':
+      default:
+        return this.parseJsonBody(response);
+    }
+  }
+
+  private async parseData<ResponseBody, RequestBody = BodyInit>(
+    response: FetchClientResponse<ResponseBody, RequestBody>
+  ): Promise<ResponseBody> {
+    // A registered deserializer takes over unless a response type is requested
+    const { responseType } = response.request;
+    const deserialize = this.getBodySerializer(response.headers.get('content-type'))?.deserialize;
+    if (!responseType && deserialize) {
+      return this.validateResponseBody(await deserialize(response), response);
+    }
+    return this.parseResponseBody(response, responseType ?? 'json');
+  }
+
+  private async *parseNdjson<Row>(
+    promise: Promise<FetchClientResponse<unknown, unknown>>
+  ): AsyncIterableIterator<Row> {
+    const response = await promise;
+    if (!response.body) return;
+
+    const { signal } = response.request;
+    const reader = response.body.getReader();
+    const onAbort = () => reader.cancel(signal?.reason).catch(() => undefined);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // Decoding in stream mode keeps multi-byte characters split across chunks intact
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let lineNumber = 0;
+    try {
+      for (;;) {
+        signal?.throwIfAborted();
+        const { done, value } = await reader.read();
+        signal?.throwIfAborted();
+        buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() ?? '';
+
+        for (const line of lines) {
+          lineNumber++;
+          // Also strips the carriage return of CRLF line endings
+          const text = line.trim();
+          if (!text) continue;
+
+          let row: Row;
+          try {
+            row = JSON.parse(text);
+          } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new FetchClientError(
+              `FetchClient: Invalid JSON at line ${lineNumber} - ${reason}`,
+              response.request as FetchClientRequest,
+              response
+            );
+          }
+          yield row;
+        }
+        if (done) return;
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      // Stop receiving the body when the loop is left early or fails
+      reader.cancel().catch(() => undefined);
+    }
+  }
+
+  private decorateResponsePromise<ResponseBody, RequestBody = BodyInit>(
+    promise: Promise<FetchClientResponse<ResponseBody, RequestBody>>
+  ): FetchClientResponsePromise<ResponseBody, RequestBody> {
+    return Object.assign(promise, {
+      json: () => promise.then((response) => this.parseJsonBody(response)),
+      text: () => promise.then((response) => response.text()),
+      blob: () => promise.then((response) => response.blob()),
+      arrayBuffer: () => promise.then((response) => response.arrayBuffer()),
+      data: () => promise.then((response) => this.parseData(response)),
+      ndjson: <Row = ResponseBody>() => {
+        // The failure is thrown once iterating, which may start after the request failed
+        promise.catch(() => undefined);
+        return this.parseNdjson<Row>(promise);
+      },
+    });
+  }
+
+  private async handleRetryDelay(ms: number, signal?: AbortSignal | null): Promise<void> {
+    signal?.throwIfAborted();
+    if (ms <= 0) return;
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(signal?.reason);
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private normalizeResponseStatusErrorMessage(
+    status: number,
+    statusText?: string,
+    data?: unknown
+  ): string {
     let message = `FetchClient: Response returned with error status ${status}`;
-    if (statusText) {
-      message += ` - ${statusText}`;
+    // Prefer the problem description of the body over the generic status text
+    const problem = (data && typeof data === 'object' ? data : {}) as FetchClientProblemDetails;
+    const description = [problem.detail, problem.title, statusText].find(
+      (value) => typeof value === 'string' && value.trim()
+    );
+    if (description) {
+      message += ` - ${description}`;
     }
     return message;
   }
 
+  private getBodySerializer(contentType?: string | null): FetchClientBodySerializer | undefined {
+    const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+    if (!mediaType) return undefined;
+    const bodySerializers = this.defaults.bodySerializers ?? {};
+    return Object.prototype.hasOwnProperty.call(bodySerializers, mediaType)
+      ? bodySerializers[mediaType]
+      : undefined;
+  }
+
+  private toFormData(multipart: Record<string, FetchClientMultipartValue>): FormData {
+    const formData = new FormData();
+    Object.entries(multipart).forEach(([name, value]) => {
+      const values = Array.isArray(value) ? value : [value];
+      values.forEach((item) => {
+        if (item === undefined || item === null) return;
+        if (item instanceof Blob) {
+          formData.append(name, item);
+        } else {
+          formData.append(name, item instanceof Date ? item.toISOString() : String(item));
+        }
+      });
+    });
+    return formData;
+  }
+
+  private async defaultParseErrorBody(response: Response): Promise<unknown> {
+    const deserialize = this.getBodySerializer(response.headers.get('content-type'))?.deserialize;
+    if (deserialize) return deserialize(response);
+
+    const contentType = response.headers.get('content-type') ?? '';
+    // Covers application/json, application/problem+json and other +json types
+    if (!/[/+]json\b/i.test(contentType)) return undefined;
+
+    const text = await response.text();
+    return text.trim() ? JSON.parse(text) : undefined;
+  }
+
+  private async parseErrorBody(
+    request: FetchClientRequestWithURL,
+    response: Response
+  ): Promise<unknown> {
+    const parseErrorBody = request.parseErrorBody ?? this.defaults.parseErrorBody;
+    if (parseErrorBody === false) return undefined;
+
+    const parse = parseErrorBody ?? ((response: Response) => this.defaultParseErrorBody(response));
+    try {
+      // Parse a copy, so the body of error.response can still be read
+      return await parse(response.clone());
+    } catch {
+      // A malformed or already consumed error body should not hide the error status
+      return undefined;
+    }
+  }
+
+  private getHooks<K extends keyof FetchClientHookMap>(hookName: K): FetchClientHookMap[K][] {
+    const ownHooks = Array.from(this.hooks[hookName] as Set<FetchClientHookMap[K]>);
+    if (!this.parent) return ownHooks;
+    // Hooks are inherited live, so hooks added to the parent later also apply to children
+    return [...this.parent.getHooks(hookName), ...ownHooks];
+  }
+
   public removeHook<K extends keyof FetchClientHookMap>(hookName: K, hook: FetchClientHookMap[K]) {
     // @ts-expect-error - TypeScript cannot infer that FetchClientHookMap[K] is the correct type for the Set
     this.hooks[hookName].delete(hook);
@@ -156,7 +614,10 @@ export default class FetchClient extends FetchClientEventEmitter<FetchClientEven
 
     const mergedSearchParams = mergeSearchParams(
       this.defaults.searchParams,
-      resolvedDefaults.searchParams
+      this.serializeSearchParams(
+        resolvedDefaults.searchParams,
+        resolvedDefaults.searchParamsSerializer ?? this.defaults.searchParamsSerializer
+      )
     );
     const searchParamsEntries = Array.from(mergedSearchParams.entries());
     //#endregion
@@ -170,6 +631,16 @@ export default class FetchClient extends FetchClientEventEmitter<FetchClientEven
     }
     //#endregion
 
+    const previousRateLimit = this.defaults.rateLimit;
+    const previousCircuitBreaker = this.defaults.circuitBreaker;
+    const previousAuth = this.defaults.auth;
+
+    // Body serializers are added to the registered ones, keyed by lowercase content type
+    const bodySerializers = { ...this.defaults.bodySerializers };
+    Object.entries(resolvedDefaults.bodySerializers ?? {}).forEach(([contentType, serializer]) => {
+      bodySerializers[contentType.toLowerCase()] = serializer;
+    });
+
     this.defaults = {
       ...this.defaults,
       ...resolvedDefaults,
@@ -178,15 +649,107 @@ export default class FetchClient extends FetchClientEventEmitter<FetchClientEven
       mergeHeaders,
       mergeSearchParams,
       resolveUrl,
+      bodySerializers,
     };
 
     // Freeze everything to ensure immutability
     Object.freeze(this.defaults.headers);
+    Object.freeze(this.defaults.bodySerializers);
     this.defaults.searchParams.forEach((entry) => Object.freeze(entry));
     Object.freeze(this.defaults.searchParams);
     Object.freeze(this.defaults);
 
+    // Children keeping the parent's configuration share its queue, buckets, circuits and token
+    // refreshes, so that they cannot bypass its limits, and get their own once they override it
+    const { parent } = this;
+    const inherits = (key: 'concurrency' | 'rateLimit' | 'circuitBreaker' | 'auth') =>
+      parent !== undefined && this.defaults[key] === parent.defaults[key];
+
+    if (parent && inherits('concurrency')) {
+      this.requestQueue = parent.requestQueue;
+    } else {
+      if (this.requestQueue === parent?.requestQueue) {
+        this.requestQueue = new FetchClientRequestQueue();
+      }
+      this.requestQueue.setConcurrency(this.defaults.concurrency ?? Infinity);
+    }
+
+    // Start with fresh buckets whenever the rate limit configuration changes
+    if (parent && inherits('rateLimit')) {
+      this.rateLimiter = parent.rateLimiter;
+    } else if (
+      this.defaults.rateLimit !== previousRateLimit ||
+      (parent && this.rateLimiter === parent.rateLimiter)
+    ) {
+      const rateLimit = this.defaults.rateLimit;
+      this.rateLimiter = rateLimit ? new FetchClientRateLimiter(rateLimit) : undefined;
+    }
+
+    // Likewise, start with closed circuits whenever the circuit breaker configuration changes
+    if (parent && inherits('circuitBreaker')) {
+      this.circuitBreaker = parent.circuitBreaker;
+    } else if (
+      this.defaults.circuitBreaker !== previousCircuitBreaker ||
+      (parent && this.circuitBreaker === parent.circuitBreaker)
+    ) {
+      const circuitBreaker = this.defaults.circuitBreaker;
+      this.circuitBreaker = circuitBreaker
+        ? new FetchClientCircuitBreaker(circuitBreaker, (event) =>
+            this.dispatchEvent('onCircuitStateChange', event)
+          )
+        : undefined;
+    }
+
+    // Token refreshes are only shared between requests using the same auth configuration
+    if (parent && inherits('auth')) {
+      this.auth = parent.auth;
+    } else if (this.defaults.auth !== previousAuth || (parent && this.auth === parent.auth)) {
+      const auth = this.defaults.auth;
+      this.auth = auth ? new FetchClientAuth(auth) : undefined;
+    }
+
     this.dispatchEvent('onDefaultsChanged', this.defaults);
+
+    // Replay the change on children that follow this client's defaults
+    this.defaultsChildren.forEach((ref) => {
+      const child = ref.deref();
+      if (child) {
+        child.setDefaults(defaults);
+      } else {
+        this.defaultsChildren.delete(ref);
+      }
+    });
+  }
+
+  /**
+   * Creates a child client that inherits this client's defaults, merged with the given ones
+   * through this client's merge strategies, and runs this client's hooks before its own.
+   */
+  public extend(
+    defaults: ValueOrCallback<FetchClientInit> = {},
+    options: FetchClientExtendOptions = {}
+  ): FetchClient {
+    const child = new (this.constructor as typeof FetchClient)();
+    child.parent = this;
+    child.setDefaults(this.defaults);
+    child.setDefaults(defaults);
+
+    if (options.inheritDefaultsChanges) {
+      this.defaultsChildren.add(new WeakRef(child));
+    }
+
+    return child;
+  }
+
+  /**
+   * Stops replaying the parent's setDefaults calls on this client, when it was extended with
+   * `inheritDefaultsChanges`. Its hooks, middlewares and shared limits are unaffected.
+   */
+  public stopInheritingDefaultsChanges() {
+    const siblings = this.parent?.defaultsChildren;
+    siblings?.forEach((ref) => {
+      if (ref.deref() === this) siblings.delete(ref);
+    });
   }
 
   public getDefaults(): Readonly<FetchClientDefaults> {
@@ -197,42 +760,182 @@ export default class FetchClient extends FetchClientEventEmitter<FetchClientEven
     return body !== undefined && body !== null && body instanceof ReadableStream;
   }
 
-  private async fetchWithTimeout<RequestBody = BodyInit>(
-    fetchFn: typeof fetch,
-    url: URL | string,
-    input: FetchClientRequest<RequestBody>,
-    timeout: number
-  ): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => {
-      controller.abort(new FetchClientTimeoutError(input));
-    }, timeout);
-    // Ensure all signals are respected
-    const signals = [controller.signal];
-    if (input.signal) {
-      signals.push(input.signal);
+  private getRateLimitKey<RequestBody = BodyInit>(
+    request: FetchClientRequestWithURL<RequestBody>
+  ): string | undefined {
+    const rateLimit = this.defaults.rateLimit;
+    if (!rateLimit || !this.rateLimiter) return undefined;
+    if (rateLimit.key) return rateLimit.key(request as FetchClientRequestWithURL);
+    return new URL(request.url).host;
+  }
+
+  private getCircuitKey<RequestBody = BodyInit>(
+    request: FetchClientRequestWithURL<RequestBody>
+  ): string | undefined {
+    const circuitBreaker = this.defaults.circuitBreaker;
+    if (!circuitBreaker || !this.circuitBreaker) return undefined;
+    if (circuitBreaker.key) return circuitBreaker.key(request as FetchClientRequestWithURL);
+    return new URL(request.url).origin;
+  }
+
+  private defaultIsCircuitFailure(result: { response?: Response; error?: unknown }): boolean {
+    if (result.response) return result.response.status >= 500;
+    return true;
+  }
+
+  private recordCircuitOutcome(
+    key: string | undefined,
+    result: { response?: Response; error?: unknown }
+  ): void {
+    if (key === undefined || !this.circuitBreaker) return;
+
+    // Requests cancelled by the caller say nothing about the health of the upstream
+    const isAbortError =
+      result.error instanceof Error &&
+      result.error.name === 'AbortError' &&
+      !(result.error instanceof FetchClientTimeoutError);
+    if (isAbortError) {
+      this.circuitBreaker.record(key, undefined);
+      return;
+    }
+
+    const isFailure = this.defaults.circuitBreaker?.isFailure ?? this.defaultIsCircuitFailure;
+    this.circuitBreaker.record(key, isFailure(result));
+  }
+
+  public getCircuitState(key: string): FetchClientCircuitState {
+    return this.circuitBreaker?.getState(key) ?? 'closed';
+  }
+
+  private async waitForQueueSlot<RequestBody = BodyInit>(
+    request: FetchClientRequest<RequestBody>,
+    timeout: false | number,
+    rateLimitKey?: string
+  ): Promise<{ release: () => void; remainingTimeout: false | number }> {
+    const countsQueueTime = timeout !== false && request.timeoutIncludesQueue === true;
+    const queuedAt = Date.now();
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let signal = request.signal;
+    if (countsQueueTime) {
+      const controller = new AbortController();
+      timeoutId = setTimeout(() => {
+        controller.abort(new FetchClientTimeoutError(request));
+      }, timeout);
+      signal = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal;
     }
-    const anySignal = AbortSignal.any(signals);
 
     try {
-      const response = await fetchFn(url, { ...input, signal: anySignal });
-      return response;
+      // Wait for a rate limit token before taking a concurrency slot, so no slot is held idle
+      if (rateLimitKey !== undefined) {
+        await this.rateLimiter?.acquire(rateLimitKey, signal);
+      }
+      const priority = request.queuePriority ?? QUEUE_PRIORITIES[request.priority ?? 'auto'] ?? 0;
+      const release = await this.requestQueue.acquire(priority, signal);
+      const remainingTimeout = countsQueueTime
+        ? Math.max(0, timeout - (Date.now() - queuedAt))
+        : timeout;
+      return { release, remainingTimeout };
     } finally {
       clearTimeout(timeoutId);
     }
   }
 
-  public async fetch<ResponseBody, RequestBody = BodyInit>(
-    input: FetchClientRequestWithURL<RequestBody>
-  ): Promise<FetchClientResponse<ResponseBody, RequestBody>>;
-  public async fetch<ResponseBody, RequestBody = BodyInit>(
+  public getQueueStats(): FetchClientQueueStats {
+    return this.requestQueue.getStats();
+  }
+
+  /**
+   * Adds a middleware wrapping part of the request pipeline, by default right outside the
+   * retry loop. Middlewares at the same position run in the order they were added.
+   * @returns A function that removes the middleware.
+   */
+  public use(middleware: FetchClientMiddleware, options: FetchClientMiddlewareOptions = {}) {
+    const registration: FetchClientMiddlewareRegistration = options.after
+      ? { middleware, anchor: options.after, placement: 'after' }
+      : { middleware, anchor: options.before ?? DEFAULT_MIDDLEWARE_ANCHOR, placement: 'before' };
+    this.middlewares = [...this.middlewares, registration];
+    return () => {
+      this.middlewares = this.middlewares.filter((item) => item !== registration);
+    };
+  }
+
+  private getMiddlewareRegistrations(): FetchClientMiddlewareRegistration[] {
+    if (!this.parent) return this.middlewares;
+    // Like hooks, middlewares are inherited live and the parent's run first
+    return [...this.parent.getMiddlewareRegistrations(), ...this.middlewares];
+  }
+
+  private buildPipeline(context: FetchClientPipelineContext): FetchClientMiddleware[] {
+    const builtIns: Record<FetchClientBuiltInMiddleware, FetchClientMiddleware> = {
+      beforeRequest: (request, next) => this.runBeforeRequestHooks(request, next, context),
+      dedupe: (request, next) => this.fetchWithDedupe(request, next, context),
+      retry: (request, next) => this.fetchWithRetry(request, next, context),
+      auth: (request, next) => this.fetchWithAuth(request, next),
+      afterResponse: (request, next) => this.runAfterResponseHooks(request, next),
+      httpCache: (request, next) => this.fetchWithHttpCache(request, next),
+      circuitBreaker: (request, next) => this.fetchWithCircuitBreaker(request, next, context),
+      queue: (request, next) => this.fetchWithQueue(request, next, context),
+      timeout: (request, next) => this.fetchWithTimeout(request, next),
+    };
+
+    const registrations = this.getMiddlewareRegistrations();
+    const getMiddlewares = (
+      anchor: FetchClientBuiltInMiddleware,
+      placement: FetchClientMiddlewareRegistration['placement']
+    ) =>
+      registrations
+        .filter((item) => item.anchor === anchor && item.placement === placement)
+        .map((item) => item.middleware);
+
+    return BUILT_IN_MIDDLEWARES.flatMap((name) => [
+      ...getMiddlewares(name, 'before'),
+      builtIns[name],
+      ...getMiddlewares(name, 'after'),
+    ]);
+  }
+
+  private runPipeline(
+    pipeline: FetchClientMiddleware[],
+    request: FetchClientRequestWithURL
+  ): Promise<Response> {
+    const dispatch = (index: number, request: FetchClientRequestWithURL): Promise<Response> => {
+      const middleware = pipeline[index];
+      try {
+        // The end of the pipeline sends the request
+        if (!middleware) {
+          return this.sendRequest(request);
+        }
+        return Promise.resolve(
+          middleware(request, (nextRequest) => dispatch(index + 1, nextRequest))
+        );
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    };
+    return dispatch(0, request);
+  }
+
+  public fetch<ResponseBody, RequestBody = BodyInit>(
+    input: FetchClientRequestWithURL<RequestBody, ResponseBody>
+  ): FetchClientResponsePromise<ResponseBody, RequestBody>;
+  public fetch<ResponseBody, RequestBody = BodyInit>(
     input: string | URL,
-    init?: FetchClientRequest<RequestBody>
-  ): Promise<FetchClientResponse<ResponseBody, RequestBody>>;
-  public async fetch<ResponseBody, RequestBody = BodyInit>(
-    input: string | URL | FetchClientRequestWithURL<RequestBody>,
-    init?: FetchClientRequest<RequestBody>
+    init?: FetchClientRequest<RequestBody, ResponseBody>
+  ): FetchClientResponsePromise<ResponseBody, RequestBody>;
+  public fetch<ResponseBody, RequestBody = BodyInit>(
+    input: string | URL | FetchClientRequestWithURL<RequestBody, ResponseBody>,
+    init?: FetchClientRequest<RequestBody, ResponseBody>
+  ): FetchClientResponsePromise<ResponseBody, RequestBody> {
+    return this.decorateResponsePromise(this.executeFetch<ResponseBody, RequestBody>(input, init));
+  }
+
+  private async executeFetch<ResponseBody, RequestBody = BodyInit>(
+    input: string | URL | FetchClientRequestWithURL<RequestBody, ResponseBody>,
+    init?: FetchClientRequest<RequestBody, ResponseBody>
   ): Promise<FetchClientResponse<ResponseBody, RequestBody>> {
+    const startedAt = Date.now();
+
     // Determine if input is a Request object
     const isRequestObject =
       typeof input === 'object' && input !== null && 'url' in input && !(input instanceof URL);
@@ -241,6 +944,51 @@ export default class FetchClient extends FetchClientEventEmitter<FetchClientEven
     const config = isRequestObject ? input : init || {};
     const inputUrl = isRequestObject ? input.url : input;
 
+    const context: FetchClientPipelineContext = { startedAt, attempts: 0 };
+    // Failures to build the request are reported with the request as given
+    let request = { ...this.defaults, ...config, url: inputUrl ?? '' } as FetchClientRequestWithURL;
+
+    try {
+      request = this.buildRequest(config, inputUrl) as FetchClientRequestWithURL;
+      const response = await this.runPipeline(this.buildPipeline(context), request);
+      // Expose the request as modified by the beforeRequest hooks
+      const finalRequest = context.request ?? request;
+      const decoratedResponse = this.decorateResponse<ResponseBody, RequestBody>(
+        this.withDownloadProgress(response, finalRequest),
+        finalRequest as FetchClientRequestWithURL<RequestBody>
+      );
+      this.dispatchEvent('onRequestEnd', {
+        request: finalRequest,
+        duration: Date.now() - startedAt,
+        attempts: context.attempts,
+        response: decoratedResponse,
+      });
+      return decoratedResponse;
+    } catch (error) {
+      return this.rejectRequest(error, context.request ?? request, context);
+    }
+  }
+
+  /**
+   * Resolves the URL, search parameters, headers and body of a request from the defaults.
+   */
+  private buildRequest<ResponseBody, RequestBody = BodyInit>(
+    config: FetchClientRequest<RequestBody, ResponseBody>,
+    url: string | URL | undefined
+  ): FetchClientRequestWithURL<RequestBody> {
+    let inputUrl = url;
+    // Fill in path parameters, keeping the template for grouping requests by route
+    let pathTemplate = config.pathTemplate;
+    if (config.pathParams && inputUrl !== undefined) {
+      // URL objects percent-encode the braces of `{name}` placeholders
+      const template =
+        inputUrl instanceof URL
+          ? inputUrl.href.replace(ENCODED_PATH_PARAM_PATTERN, '{$1}')
+          : inputUrl;
+      pathTemplate ??= template;
+      inputUrl = this.interpolatePathParams(template, config.pathParams);
+    }
+
     // Resolve final URL
     const baseUrl = config.baseUrl ?? this.defaults.baseUrl;
     if (!this.defaults.resolveUrl) {
@@ -255,7 +1003,12 @@ export default class FetchClient extends FetchClientEventEmitter<FetchClientEven
     // Normalize all provided search parameters
     const defaultSearchParams = new URLSearchParams(this.defaults.searchParams);
     const urlSearchParams = resolvedUrl.searchParams;
-    const configSearchParams = new URLSearchParams(config.searchParams);
+    const configSearchParams = new URLSearchParams(
+      this.serializeSearchParams(
+        config.searchParams,
+        config.searchParamsSerializer ?? this.defaults.searchParamsSerializer
+      )
+    );
     // Merge search parameters from defaults, URL, and current config
     const finalSearchParams = this.defaults.mergeSearchParams(
       this.defaults.mergeSearchParams(defaultSearchParams, urlSearchParams),
@@ -271,6 +1024,12 @@ export default class FetchClient extends FetchClientEventEmitter<FetchClientEven
     // Merge headers from defaults and current config
     const mergedHeaders = this.defaults.mergeHeaders(this.defaults.headers, config.headers);
 
+    // Advertise the expected response type unless explicitly set
+    const responseType = config.responseType ?? this.defaults.responseType;
+    if (responseType && !mergedHeaders.has('accept')) {
+      mergedHeaders.set('accept', RESPONSE_TYPE_ACCEPT_HEADERS[responseType]);
+    }
+
     // Handle JSON body if provided
     let resolvedBody = config.body;
     if (config.json !== undefined) {
@@ -279,6 +1038,28 @@ export default class FetchClient extends FetchClientEventEmitter<FetchClientEven
       if (!mergedHeaders.has('content-type')) {
         mergedHeaders.set('content-type', 'application/json');
       }
+    } else if (config.form !== undefined) {
+      resolvedBody = new URLSearchParams(
+        this.serializeSearchParams(
+          config.form,
+          config.searchParamsSerializer ?? this.defaults.searchParamsSerializer
+        )
+      );
+      if (!mergedHeaders.has('content-type')) {
+        mergedHeaders.set('content-type', FORM_CONTENT_TYPE);
+      }
+    } else if (config.multipart !== undefined) {
+      resolvedBody = this.toFormData(config.multipart);
+    } else if (config.payload !== undefined) {
+      const contentType = mergedHeaders.get('content-type');
+      const serialize = this.getBodySerializer(contentType)?.serialize;
+      if (!contentType) {
+        throw new Error('Cannot serialize the payload, the request has no Content-Type');
+      }
+      if (!serialize) {
+        throw new Error(`No body serializer registered for content type ${contentType}`);
+      }
+      resolvedBody = serialize(config.payload);
     }
 
     // Ensure Content-Type header is not set for FormData bodies
@@ -287,96 +1068,356 @@ export default class FetchClient extends FetchClientEventEmitter<FetchClientEven
     }
 
     // Build the final request object
-    let request: FetchClientRequestWithURL<RequestBody> = {
+    return {
       ...this.defaults,
       ...config,
       url: resolvedUrl, // Assign resolved URL back to request
+      pathTemplate,
       searchParams: finalSearchParams,
       headers: mergedHeaders,
       body: resolvedBody ?? config.body,
     };
+  }
+
+  private async rejectRequest(
+    error: unknown,
+    request: FetchClientRequestWithURL,
+    context: FetchClientPipelineContext
+  ): Promise<never> {
+    // Apply beforeError hooks
+    let finalError = error;
+    for (const beforeError of this.getHooks('beforeError')) {
+      const result = await beforeError(finalError, request);
+      if (result) {
+        finalError = result;
+      }
+    }
+
+    this.dispatchEvent('onRequestEnd', {
+      request,
+      duration: Date.now() - context.startedAt,
+      attempts: context.attempts,
+      error: finalError,
+    });
+    throw finalError;
+  }
+
+  private sendRequest(request: FetchClientRequestWithURL): Promise<Response> {
+    const send = async (finalRequest: FetchClientRequestWithURL) => {
+      try {
+        return await this.resolveFetchFunction(finalRequest)(finalRequest.url, finalRequest);
+      } catch (error) {
+        this.markTransportError(error);
+        throw error;
+      }
+    };
+    // The body is streamed anew for each attempt, so retries report their progress too
+    const { onUploadProgress } = request;
+    if (!onUploadProgress) return send(request);
+    return this.withUploadProgress(request, onUploadProgress).then(send);
+  }
 
-    const beforeRequestHooks = this.hooks.beforeRequest.values();
-    const afterResponseHooks = this.hooks.afterResponse.values();
+  private async withUploadProgress(
+    request: FetchClientRequestWithURL,
+    onUploadProgress: (event: FetchClientProgressEvent) => void
+  ): Promise<FetchClientRequestWithURL> {
+    let { body } = request;
+    if (body === undefined || body === null) return request;
+
+    const headers = new Headers(request.headers);
+    let stream: ReadableStream<Uint8Array>;
+    if (this.isReadableStream(body)) {
+      // The original stream stays locked, so the retry guard still sees it as used
+      const total = Number(headers.get('content-length')) || undefined;
+      stream = new FetchClientProgress(onUploadProgress, total).track(body);
+    } else {
+      // Encode form bodies the way fetch would, to know their size and Content-Type
+      if (body instanceof FormData || body instanceof URLSearchParams) {
+        const encoded = new Response(body);
+        if (body instanceof FormData || !headers.has('content-type')) {
+          headers.set('content-type', encoded.headers.get('content-type') as string);
+        }
+        body = await encoded.blob();
+      }
+      if (typeof body === 'string' && !headers.has('content-type')) {
+        headers.set('content-type', 'text/plain;charset=UTF-8');
+      }
+      if (body instanceof Blob && body.type && !headers.has('content-type')) {
+        headers.set('content-type', body.type);
+      }
+      const blob = body instanceof Blob ? body : new Blob([body as BlobPart]);
+      stream = new FetchClientProgress(onUploadProgress, blob.size).streamBlob(blob);
+    }
+
+    // Streamed request bodies can only be sent in half duplex
+    return { ...request, headers, body: stream, duplex: 'half' } as FetchClientRequestWithURL;
+  }
 
-    for (const beforeRequest of beforeRequestHooks) {
-      const result = await beforeRequest(request as FetchClientRequestWithURL);
+  private withDownloadProgress(response: Response, request: FetchClientRequestWithURL): Response {
+    const { onDownloadProgress } = request;
+    if (!onDownloadProgress || !response.body) return response;
+
+    // The Content-Length of an encoded body does not match the number of decoded bytes
+    const total = response.headers.has('content-encoding')
+      ? undefined
+      : Number(response.headers.get('content-length')) || undefined;
+    const tracked = new Response(
+      new FetchClientProgress(onDownloadProgress, total).track(response.body),
+      { status: response.status, statusText: response.statusText, headers: response.headers }
+    );
+    // Keep the properties the Response constructor cannot set
+    Object.defineProperties(tracked, {
+      url: { value: response.url },
+      redirected: { value: response.redirected },
+      type: { value: response.type },
+    });
+    return tracked;
+  }
+
+  private getHttpCache<RequestBody = BodyInit>(
+    request: FetchClientRequest<RequestBody>
+  ): FetchClientHttpCache | undefined {
+    if (!request.httpCache) return undefined;
+
+    let store = request.httpCache === true ? undefined : request.httpCache.store;
+    if (!store) {
+      // The default store is created lazily and shared by every request of this client
+      this.defaultCacheStore ??= new FetchClientMemoryCacheStore();
+      store = this.defaultCacheStore;
+    }
+    return new FetchClientHttpCache(store);
+  }
+
+  private resolveFetchFunction<RequestBody = BodyInit>(
+    request: FetchClientRequest<RequestBody>
+  ): typeof fetch {
+    const fetchFn = request.fetch ?? fetch;
+    const cache = this.getHttpCache(request);
+    if (!cache) return fetchFn;
+    return (url, init) => cache.fetch(fetchFn, url instanceof Request ? url.url : url, init ?? {});
+  }
+
+  private fetchWithHttpCache(
+    request: FetchClientRequestWithURL,
+    next: FetchClientMiddlewareNext
+  ): Promise<Response> {
+    const cache = this.getHttpCache(request);
+    if (!cache) return next(request);
+
+    // Responses served from the cache skip the circuit breaker, the queue and the rate limiter,
+    // and are not counted as circuit outcomes since the upstream was not contacted
+    return cache
+      .match(request.fetch ?? fetch, request.url, request)
+      .then((cached) => cached ?? next(request));
+  }
+
+  private async runBeforeRequestHooks(
+    request: FetchClientRequestWithURL,
+    next: FetchClientMiddlewareNext,
+    context: FetchClientPipelineContext
+  ): Promise<Response> {
+    for (const beforeRequest of this.getHooks('beforeRequest')) {
+      const result = await beforeRequest(request);
       if (result) {
-        request = result as FetchClientRequestWithURL<RequestBody>;
+        request = result;
       }
     }
 
-    // Normalize timeout value
+    context.request = request;
+    this.dispatchEvent('onRequestStart', {
+      request,
+      duration: Date.now() - context.startedAt,
+    });
+
+    return next(request);
+  }
+
+  private async runAfterResponseHooks(
+    request: FetchClientRequestWithURL,
+    next: FetchClientMiddlewareNext
+  ): Promise<Response> {
+    let response = await next(request);
+
+    for (const afterResponse of this.getHooks('afterResponse')) {
+      const result = await afterResponse(request, response);
+      if (result) {
+        response = result;
+      }
+    }
+
+    return response;
+  }
+
+  private defaultDedupeKey<RequestBody = BodyInit>(
+    request: FetchClientRequestWithURL<RequestBody>,
+    headerNames: string[]
+  ): string {
+    const headers = new Headers(request.headers);
+    const method = (request.method ?? 'GET').toUpperCase();
+    const headerValues = headerNames.map(
+      (name) => `${name.toLowerCase()}:${headers.get(name) ?? ''}`
+    );
+    return [method, request.url.toString(), ...headerValues].join('\n');
+  }
+
+  private waitForPromiseOrAbort<T>(promise: Promise<T>, signal?: AbortSignal | null): Promise<T> {
+    if (!signal) return promise;
+    signal.throwIfAborted();
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private async fetchWithDedupe(
+    request: FetchClientRequestWithURL,
+    next: FetchClientMiddlewareNext,
+    context: FetchClientPipelineContext
+  ): Promise<Response> {
+    const dedupe = request.dedupe === true ? {} : request.dedupe;
+    const method = (request.method ?? 'GET').toUpperCase();
+    const methods = (dedupe ? dedupe.methods ?? DEFAULT_DEDUPE_METHODS : []).map((m) =>
+      m.toUpperCase()
+    );
+
+    if (!dedupe || !methods.includes(method)) {
+      return next(request);
+    }
+
+    // The shared request runs with the options of the caller starting it, so only callers
+    // sharing its timeout and retry options can join it
     const timeout = request.timeout ?? this.defaults.timeout ?? DEFAULT_TIMEOUT;
+    const retry = request.retry ?? this.defaults.retry ?? false;
+    const key = [
+      dedupe.key
+        ? dedupe.key(request)
+        : this.defaultDedupeKey(request, dedupe.headers ?? DEFAULT_DEDUPE_HEADERS),
+      `timeout:${timeout}`,
+      `retry:${JSON.stringify(retry)}`,
+    ].join('\n');
+
+    // Do not start or join a shared request on behalf of an already aborted caller
+    request.signal?.throwIfAborted();
+
+    let entry = this.inFlightRequests.get(key);
+    if (!entry) {
+      // The shared request has its own signal, so that one caller aborting does not cancel it
+      const controller = new AbortController();
+      const promise = next({ ...request, signal: controller.signal }).finally(() => {
+        if (this.inFlightRequests.get(key) === entry) {
+          this.inFlightRequests.delete(key);
+        }
+      });
+      entry = { promise, controller, context, subscribers: 0 };
+      this.inFlightRequests.set(key, entry);
+    }
 
-    // Resolve fetch function
-    const fetchFn = request.fetch ?? fetch;
+    const sharedEntry = entry;
+    sharedEntry.subscribers++;
+
+    try {
+      const response = await this.waitForPromiseOrAbort(sharedEntry.promise, request.signal);
+      // Each caller gets its own copy of the body
+      return response.clone();
+    } catch (error) {
+      // Cancel the shared request once every caller waiting on it has aborted
+      if (request.signal?.aborted && sharedEntry.subscribers === 1) {
+        sharedEntry.controller.abort(request.signal.reason);
+        if (this.inFlightRequests.get(key) === sharedEntry) {
+          this.inFlightRequests.delete(key);
+        }
+      }
+      throw error;
+    } finally {
+      sharedEntry.subscribers--;
+      context.attempts = sharedEntry.context.attempts;
+    }
+  }
+
+  private async fetchWithRetry(
+    request: FetchClientRequestWithURL,
+    next: FetchClientMiddlewareNext,
+    context: FetchClientPipelineContext
+  ): Promise<Response> {
+    // Normalize timeout value
+    const timeout = request.timeout ?? this.defaults.timeout ?? DEFAULT_TIMEOUT;
 
     // Resolve retry options
     const retryOptions = request.retry ?? this.defaults.retry;
     const maxAttempts = retryOptions ? retryOptions.limit : 0;
 
+    const { startedAt } = context;
+
     let lastError: unknown;
+    let previousDelay: number | undefined;
 
     // Retry loop
     for (let attempt = 0; attempt <= maxAttempts; attempt++) {
-      try {
-        // Execute the fetch request with or without timeout
-        let response: Response;
+      const attemptStartedAt = Date.now();
+      context.attempts = attempt + 1;
 
-        const urlToSend = request.url;
+      this.dispatchEvent('onAttemptStart', {
+        request,
+        attempt,
+        duration: attemptStartedAt - startedAt,
+      });
 
-        // Strictly check for false to allow 0 timeout
-        if (timeout === false) {
-          response = await fetchFn(urlToSend, request);
-        } else {
-          response = await this.fetchWithTimeout(fetchFn, urlToSend, request, timeout);
-        }
+      try {
+        const response = await next(request);
 
-        // Apply afterResponse hooks
-        for (const afterResponse of afterResponseHooks) {
-          const result = await afterResponse(request as FetchClientRequestWithURL, response);
-          if (result) {
-            response = result;
-          }
-        }
+        const now = Date.now();
+        this.dispatchEvent('onResponse', {
+          request,
+          attempt,
+          duration: now - startedAt,
+          attemptDuration: now - attemptStartedAt,
+          response,
+        });
 
         // Resolve the error validation function
         const isResponseError =
           request.isResponseError ?? this.defaults.isResponseError ?? this.defaultIsResponseError;
 
-        // Check if the response is an error (e.g., status 400, 500)
+        // Check if the response is an error (e.g., status 400, 500), retries are handled below
         if (isResponseError(response)) {
+          const data = await this.parseErrorBody(request, response);
           const errorMessage = this.normalizeResponseStatusErrorMessage(
             response.status,
-            response.statusText
+            response.statusText,
+            data
           );
 
-          const error = new FetchClientError(errorMessage, request, response);
+          throw new FetchClientError(errorMessage, request, response, data);
+        }
 
-          // Check if should retry for this error
-          const shouldRetry =
-            attempt < maxAttempts &&
-            retryOptions &&
-            (!retryOptions.retryOn || retryOptions.retryOn(attempt, error));
+        return response;
+      } catch (error) {
+        lastError = error;
 
-          if (shouldRetry) {
-            await this.handleRetryDelay(retryOptions, attempt, error);
-            continue;
-          }
+        const now = Date.now();
+        const attemptEvent = {
+          request,
+          attempt,
+          duration: now - startedAt,
+          attemptDuration: now - attemptStartedAt,
+        };
 
-          throw error;
+        // If it's a timeout error, we may want to retry
+        const isInstanceofTimeoutError = error instanceof FetchClientTimeoutError;
+        if (isInstanceofTimeoutError && timeout !== false) {
+          this.dispatchEvent('onTimeout', { ...attemptEvent, error, timeout });
         }
+        this.dispatchEvent('onError', { ...attemptEvent, error });
 
-        // Decorate response only once when returning
-        return this.decorateResponse<ResponseBody, RequestBody>(response, request);
-      } catch (error) {
-        lastError = error;
+        // Requests rejected by an open circuit or a failed token refresh are never retried
+        if (error instanceof FetchClientCircuitOpenError || error instanceof FetchClientAuthError) {
+          throw error;
+        }
 
         // If the error is a manual AbortError, do not retry
         const isAbortError = error instanceof Error && error.name === 'AbortError';
-        // If it's a timeout error, we may want to retry
-        const isInstanceofTimeoutError = error instanceof FetchClientTimeoutError;
         // Rethrow immediately if it's an abort error not caused by a timeout
         if (isAbortError && !isInstanceofTimeoutError) {
           throw error;
@@ -394,10 +1435,31 @@ export default class FetchClient extends FetchClientEventEmitter<FetchClientEven
         const shouldRetry =
           attempt < maxAttempts &&
           retryOptions &&
-          (!retryOptions.retryOn || retryOptions.retryOn(attempt, error));
-
-        if (shouldRetry) {
-          await this.handleRetryDelay(retryOptions, attempt, error);
+          (retryOptions.retryOn
+            ? retryOptions.retryOn(attempt, error)
+            : this.defaultRetryOn(retryOptions, request, error));
+
+        const delay = shouldRetry
+          ? this.getRetryDelay(retryOptions, attempt, error, previousDelay)
+          : false;
+
+        if (delay !== false) {
+          previousDelay = delay;
+          // Stop waiting as soon as the request is aborted
+          await this.handleRetryDelay(delay, request.signal);
+
+          // Let beforeRetry hooks change the request for the next attempt, or cancel it
+          for (const beforeRetry of this.getHooks('beforeRetry')) {
+            const result = await beforeRetry(request, error, attempt);
+            if (result === false) {
+              throw error;
+            }
+            if (result) {
+              request = result;
+            }
+          }
+          // Only announce retries that the beforeRetry hooks did not cancel
+          this.dispatchEvent('onRetry', { ...attemptEvent, error, delay });
           continue;
         }
 
@@ -408,91 +1470,353 @@ export default class FetchClient extends FetchClientEventEmitter<FetchClientEven
     throw lastError ?? new Error('Unknown fetch error');
   }
 
+  private withAuthorization(
+    request: FetchClientRequestWithURL,
+    auth: FetchClientAuth,
+    token: string | undefined
+  ): FetchClientRequestWithURL {
+    if (token === undefined) return request;
+    const headers = new Headers(request.headers);
+    headers.set('authorization', auth.formatHeader(token));
+    return { ...request, headers };
+  }
+
+  private async fetchWithAuth(
+    request: FetchClientRequestWithURL,
+    next: FetchClientMiddlewareNext
+  ): Promise<Response> {
+    const auth = this.auth;
+    if (!auth) return next(request);
+
+    const token = await auth.getToken();
+    const response = await next(this.withAuthorization(request, auth, token));
+    if (!auth.shouldRefresh(response)) return response;
+
+    // The first attempt has consumed the stream, so there is nothing left to replay
+    if (this.isReadableStream(request.body)) {
+      throw new FetchClientError(
+        'FetchClient: Cannot replay a request with a stream body after refreshing the token',
+        request,
+        response
+      );
+    }
+
+    let freshToken: string;
+    try {
+      freshToken = await auth.refresh(token);
+    } catch (error) {
+      // Retrying would only refresh again and replay the same rejected request
+      throw new FetchClientAuthError(request, response, { cause: error });
+    }
+    // Release the connection of the rejected response before replaying the request
+    response.body?.cancel().catch(() => undefined);
+    // Replay once; a second rejection is handled like any other error response
+    return next(this.withAuthorization(request, auth, freshToken));
+  }
+
+  private async fetchWithQueue(
+    request: FetchClientRequestWithURL,
+    next: FetchClientMiddlewareNext,
+    context: FetchClientPipelineContext
+  ): Promise<Response> {
+    const timeout = request.timeout ?? this.defaults.timeout ?? DEFAULT_TIMEOUT;
+
+    // Wait for a rate limit token and a free slot when the client limits either
+    const rateLimitKey = this.getRateLimitKey(request);
+    const isRateLimited = rateLimitKey !== undefined && !this.rateLimiter?.tryAcquire(rateLimitKey);
+    let release = isRateLimited ? undefined : this.requestQueue.tryAcquire();
+    let remainingTimeout = timeout;
+    if (!release) {
+      ({ release, remainingTimeout } = await this.waitForQueueSlot(
+        request,
+        timeout,
+        isRateLimited ? rateLimitKey : undefined
+      ));
+    }
+    context.dequeued = true;
+
+    let response: Response;
+    try {
+      // Only the time left after waiting in the queue applies to the rest of the attempt
+      response = await next(
+        remainingTimeout === timeout ? request : { ...request, timeout: remainingTimeout }
+      );
+    } finally {
+      release();
+    }
+
+    // Let quota headers adjust the bucket of this request
+    if (rateLimitKey !== undefined && this.defaults.rateLimit?.useResponseHeaders !== false) {
+      this.rateLimiter?.update(rateLimitKey, response.headers);
+    }
+
+    return response;
+  }
+
+  private async fetchWithCircuitBreaker(
+    request: FetchClientRequestWithURL,
+    next: FetchClientMiddlewareNext,
+    context: FetchClientPipelineContext
+  ): Promise<Response> {
+    // Fail fast while the circuit of the request is open, before waiting in the queue
+    const circuitKey = this.getCircuitKey(request);
+    if (circuitKey !== undefined && !this.circuitBreaker?.allowRequest(circuitKey)) {
+      const retryAt = this.circuitBreaker?.getRetryAt(circuitKey) ?? Date.now();
+      throw new FetchClientCircuitOpenError(circuitKey, retryAt, request);
+    }
+
+    context.dequeued = false;
+    try {
+      const response = await next(request);
+      this.recordCircuitOutcome(circuitKey, { response });
+      return response;
+    } catch (error) {
+      // Failing to get a queue slot or a rate limit token says nothing about the upstream
+      if (!context.dequeued) {
+        if (circuitKey !== undefined) this.circuitBreaker?.record(circuitKey, undefined);
+        throw error;
+      }
+      this.recordCircuitOutcome(circuitKey, { error });
+      throw error;
+    }
+  }
+
+  private async fetchWithTimeout(
+    request: FetchClientRequestWithURL,
+    next: FetchClientMiddlewareNext
+  ): Promise<Response> {
+    const timeout = request.timeout ?? this.defaults.timeout ?? DEFAULT_TIMEOUT;
+    // Strictly check for false to allow 0 timeout
+    if (timeout === false) return next(request);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      controller.abort(new FetchClientTimeoutError(request));
+    }, timeout);
+    // Ensure all signals are respected
+    const signals = [controller.signal];
+    if (request.signal) {
+      signals.push(request.signal);
+    }
+    const anySignal = AbortSignal.any(signals);
+
+    try {
+      const response = await next({ ...request, signal: anySignal });
+      return response;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private interpolatePathParams(
+    template: string,
+    params: Record<string, string | number> = {},
+    route = template
+  ): string {
+    // Leave the origin, search and hash alone so that ports and credentials are not replaced
+    const [, origin = '', path, rest] = PATH_TEMPLATE_PATTERN.exec(template) as RegExpExecArray;
+    const interpolatedPath = path.replace(
+      PATH_PARAM_PATTERN,
+      (_, colonName: string | undefined, braceName: string | undefined) => {
+        const name = (colonName ?? braceName) as string;
+        const value = params[name];
+        if (value === undefined) {
+          throw new Error(`No value provided for path parameter "${name}" of route ${route}`);
+        }
+        return encodeURIComponent(String(value));
+      }
+    );
+    return origin + interpolatedPath + rest;
+  }
+
+  /**
+   * Calls a route such as `'GET /users/:id'`, filling in its path parameters from `params`.
+   * Use `withRoutes` to type the calls with a route map.
+   */
+  public call<ResponseBody = unknown, RequestBody = unknown>(
+    route: string,
+    options: FetchClientCallInit<RequestBody, ResponseBody> = {}
+  ): FetchClientResponsePromise<ResponseBody, RequestBody> {
+    const separatorIndex = route.indexOf(' ');
+    const method = separatorIndex === -1 ? 'GET' : route.slice(0, separatorIndex).toUpperCase();
+    const path = separatorIndex === -1 ? route : route.slice(separatorIndex + 1).trim();
+    const { params, ...init } = options;
+
+    let url: string;
+    try {
+      url = this.interpolatePathParams(path, params, route);
+    } catch (error) {
+      const request = { ...this.defaults, ...init, method, url: path, pathTemplate: path };
+      return this.decorateResponsePromise(
+        this.rejectRequest(error, request as FetchClientRequestWithURL, {
+          startedAt: Date.now(),
+          attempts: 0,
+        })
+      );
+    }
+
+    return this.fetch<ResponseBody, RequestBody>(url, {
+      ...init,
+      method,
+      pathTemplate: path,
+    });
+  }
+
+  /**
+   * Returns this client typed with a route map, so that `call` checks the parameters,
+   * search parameters and body of each route, and infers its response type.
+   */
+  public withRoutes<Routes extends FetchClientRouteMap>(): Omit<this, 'call'> &
+    FetchClientRouteCaller<Routes> {
+    return this as unknown as Omit<this, 'call'> & FetchClientRouteCaller<Routes>;
+  }
+
+  /**
+   * Opens a Server-Sent Events stream through the regular request pipeline, so that defaults,
+   * hooks and middlewares apply to each connection. Lost connections are reopened with the
+   * `Last-Event-ID` header until the returned source is closed.
+   */
+  public sse(url: string | URL, init: FetchClientSseInit = {}): FetchClientEventSource {
+    const { reconnect = true, onOpen, onEvent, onError, ...requestInit } = init;
+    const retryOptions = requestInit.retry ?? this.defaults.retry ?? false;
+    const onAbort = (): void => source.close();
+
+    const source = new FetchClientEventSource({
+      connect: (lastEventId, signal) => {
+        const headers = new Headers(requestInit.headers);
+        if (!headers.has('accept')) headers.set('accept', 'text/event-stream');
+        if (lastEventId !== undefined) headers.set('last-event-id', lastEventId);
+        return this.fetch(url, {
+          ...requestInit,
+          headers,
+          signal: requestInit.signal ? AbortSignal.any([requestInit.signal, signal]) : signal,
+          // Reconnections take the place of retries, and a stream is never shared
+          retry: false,
+          dedupe: false,
+        });
+      },
+      getReconnectDelay: (attempt, error, retry, connectionLost) => {
+        if (!reconnect) return false;
+        if (error !== undefined) {
+          if (error instanceof Error && error.name === 'AbortError') return false;
+          // A stream failing while it is read is a network error too
+          if (connectionLost) this.markTransportError(error);
+          // Without retry options, give up on error responses like EventSource does
+          const shouldReconnect = retryOptions
+            ? attempt < retryOptions.limit &&
+              (retryOptions.retryOn
+                ? retryOptions.retryOn(attempt, error)
+                : this.defaultRetryOn(retryOptions, requestInit, error))
+            : !(error instanceof FetchClientError && error.status !== undefined);
+          if (!shouldReconnect) return false;
+        }
+        // The delay sent by the server takes precedence over the retry options
+        if (retry !== undefined) return retry;
+        const delay = retryOptions ? this.getRetryDelay(retryOptions, attempt, error) : 0;
+        if (delay === false) return false;
+        return delay || DEFAULT_RECONNECT_DELAY;
+      },
+      wait: (ms, signal) => this.handleRetryDelay(ms, signal),
+      onOpen,
+      onEvent,
+      onError,
+      // The caller's signal may outlive the source
+      onClose: () => requestInit.signal?.removeEventListener('abort', onAbort),
+    });
+
+    if (requestInit.signal?.aborted) {
+      source.close();
+    } else {
+      requestInit.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+    return source;
+  }
+
   //#region HTTP helper methods
-  public async get<ResponseBody, RequestBody = BodyInit>(
+  public get<ResponseBody, RequestBody = BodyInit>(
     url: string | URL,
-    init?: Omit<FetchClientRequest<RequestBody>, 'method'>
-  ): Promise<FetchClientResponse<ResponseBody, RequestBody>> {
+    init?: Omit<FetchClientRequest<RequestBody, ResponseBody>, 'method'>
+  ): FetchClientResponsePromise<ResponseBody, RequestBody> {
     return this.fetch<ResponseBody, RequestBody>(url, {
       ...init,
       method: 'GET',
     });
   }
 
-  public async head<ResponseBody, RequestBody = BodyInit>(
+  public head<ResponseBody, RequestBody = BodyInit>(
     url: string | URL,
-    init?: Omit<FetchClientRequest<RequestBody>, 'method'>
-  ): Promise<FetchClientResponse<ResponseBody, RequestBody>> {
+    init?: Omit<FetchClientRequest<RequestBody, ResponseBody>, 'method'>
+  ): FetchClientResponsePromise<ResponseBody, RequestBody> {
     return this.fetch<ResponseBody, RequestBody>(url, {
       ...init,
       method: 'HEAD',
     });
   }
 
-  public async options<ResponseBody, RequestBody = BodyInit>(
+  public options<ResponseBody, RequestBody = BodyInit>(
     url: string | URL,
-    init?: Omit<FetchClientRequest<RequestBody>, 'method'>
-  ): Promise<FetchClientResponse<ResponseBody, RequestBody>> {
+    init?: Omit<FetchClientRequest<RequestBody, ResponseBody>, 'method'>
+  ): FetchClientResponsePromise<ResponseBody, RequestBody> {
     return this.fetch<ResponseBody, RequestBody>(url, {
       ...init,
       method: 'OPTIONS',
     });
   }
 
-  public async trace<ResponseBody, RequestBody = BodyInit>(
+  public trace<ResponseBody, RequestBody = BodyInit>(
     url: string | URL,
-    init?: Omit<FetchClientRequest<RequestBody>, 'method'>
-  ): Promise<FetchClientResponse<ResponseBody, RequestBody>> {
+    init?: Omit<FetchClientRequest<RequestBody, ResponseBody>, 'method'>
+  ): FetchClientResponsePromise<ResponseBody, RequestBody> {
     return this.fetch<ResponseBody, RequestBody>(url, {
       ...init,
       method: 'TRACE',
     });
   }
 
-  public async put<ResponseBody, RequestBody = BodyInit>(
+  public put<ResponseBody, RequestBody = BodyInit>(
     url: string | URL,
-    init?: Omit<FetchClientRequest<RequestBody>, 'method'>
-  ): Promise<FetchClientResponse<ResponseBody, RequestBody>> {
+    init?: Omit<FetchClientRequest<RequestBody, ResponseBody>, 'method'>
+  ): FetchClientResponsePromise<ResponseBody, RequestBody> {
     return this.fetch<ResponseBody, RequestBody>(url, {
       ...init,
       method: 'PUT',
     });
   }
 
-  public async delete<ResponseBody, RequestBody = BodyInit>(
+  public delete<ResponseBody, RequestBody = BodyInit>(
     url: string | URL,
-    init?: Omit<FetchClientRequest<RequestBody>, 'method'>
-  ): Promise<FetchClientResponse<ResponseBody, RequestBody>> {
+    init?: Omit<FetchClientRequest<RequestBody, ResponseBody>, 'method'>
+  ): FetchClientResponsePromise<ResponseBody, RequestBody> {
     return this.fetch<ResponseBody, RequestBody>(url, {
       ...init,
       method: 'DELETE',
     });
   }
 
-  public async post<ResponseBody, RequestBody = BodyInit>(
+  public post<ResponseBody, RequestBody = BodyInit>(
     url: string | URL,
-    init?: Omit<FetchClientRequest<RequestBody>, 'method'>
-  ): Promise<FetchClientResponse<ResponseBody, RequestBody>> {
+    init?: Omit<FetchClientRequest<RequestBody, ResponseBody>, 'method'>
+  ): FetchClientResponsePromise<ResponseBody, RequestBody> {
     return this.fetch<ResponseBody, RequestBody>(url, {
       ...init,
       method: 'POST',
     });
   }
 
-  public async patch<ResponseBody, RequestBody = BodyInit>(
+  public patch<ResponseBody, RequestBody = BodyInit>(
     url: string | URL,
-    init?: Omit<FetchClientRequest<RequestBody>, 'method'>
-  ): Promise<FetchClientResponse<ResponseBody, RequestBody>> {
+    init?: Omit<FetchClientRequest<RequestBody, ResponseBody>, 'method'>
+  ): FetchClientResponsePromise<ResponseBody, RequestBody> {
     return this.fetch<ResponseBody, RequestBody>(url, {
       ...init,
       method: 'PATCH',
     });
   }
 
-  public async connect<ResponseBody, RequestBody = BodyInit>(
+  public connect<ResponseBody, RequestBody = BodyInit>(
     url: string | URL,
-    init?: Omit<FetchClientRequest<RequestBody>, 'method'>
-  ): Promise<FetchClientResponse<ResponseBody, RequestBody>> {
+    init?: Omit<FetchClientRequest<RequestBody, ResponseBody>, 'method'>
+  ): FetchClientResponsePromise<ResponseBody, RequestBody> {
     return this.fetch<ResponseBody, RequestBody>(url, {
       ...init,
       method: 'CONNECT',
@@ -1,5 +1,15 @@
 export { default as FetchClient } from './fetch-client';
 export * from './fetch-client';
 export * from './types';
+export { default as FetchClientMemoryCacheStore } from './cache/fetch-client-memory-cache-store';
+export { default as FetchClientEventSource } from './fetch-client-event-source';
 export * from './errors/fetch-client-error';
 export * from './errors/fetch-client-timeout-error';
+export * from './errors/fetch-client-validation-error';
+export * from './errors/fetch-client-circuit-open-error';
+export * from './errors/fetch-client-auth-error';
+export { default as FetchClientError } from './errors/fetch-client-error';
+export { default as FetchClientTimeoutError } from './errors/fetch-client-timeout-error';
+export { default as FetchClientValidationError } from './errors/fetch-client-validation-error';
+export { default as FetchClientCircuitOpenError } from './errors/fetch-client-circuit-open-error';
+export { default as FetchClientAuthError } from './errors/fetch-client-auth-error';
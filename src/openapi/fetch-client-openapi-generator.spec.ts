@@ -0,0 +1,297 @@
+import ts from 'typescript';
+import { expect, it, suite } from 'vitest';
+
+import { generateOpenApiClient, parseOpenApiDocument } from './fetch-client-openapi-generator';
+import FetchClientYamlParser from './fetch-client-yaml-parser';
+import { OpenApiDocument } from './types';
+
+const petstore = `
+openapi: 3.0.3
+info:
+  title: Petstore
+  version: 1.0.0
+paths:
+  /pets:
+    post:
+      operationId: createPet
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema:
+              $ref: '#/components/schemas/Pet'
+      responses:
+        '201':
+          description: The created pet
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Pet'
+  /pets/{petId}:
+    parameters:
+      - name: petId
+        in: path
+        required: true
+        schema:
+          type: string
+    get:
+      operationId: showPetById
+      summary: Info for a specific pet
+      parameters:
+        - name: fields
+          in: query
+          schema:
+            type: array
+            items:
+              type: string
+      responses:
+        '200':
+          description: The pet
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Pet'
+        '404':
+          description: Not found
+          content:
+            application/problem+json:
+              schema:
+                $ref: '#/components/schemas/Problem'
+        default:
+          description: Unexpected error
+components:
+  schemas:
+    Pet:
+      type: object
+      required: [id, name]
+      properties:
+        id:
+          type: integer
+        name:
+          type: string
+        tag:
+          type: string
+          nullable: true
+        status:
+          type: string
+          enum: [available, sold]
+    Problem:
+      type: object
+      properties:
+        title:
+          type: string
+`;
+
+/**
+ * Type-checks a generated module placed in this directory against the library sources,
+ * with the compiler options of the repository.
+ */
+function getTypeErrors(source: string): string[] {
+  const configPath = ts.findConfigFile(ts.sys.getCurrentDirectory(), ts.sys.fileExists) as string;
+  const { options } = ts.getParsedCommandLineOfConfigFile(configPath, undefined, {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: () => undefined,
+  }) as ts.ParsedCommandLine;
+  const fileName = configPath.replace(/tsconfig\.json$/, 'src/openapi/petstore.generated.ts');
+
+  const host = ts.createCompilerHost(options);
+  const { getSourceFile, fileExists, readFile } = host;
+  host.getSourceFile = (name, languageVersion, ...rest) =>
+    name === fileName
+      ? ts.createSourceFile(name, source, languageVersion)
+      : getSourceFile.call(host, name, languageVersion, ...rest);
+  host.fileExists = (name) => name === fileName || fileExists.call(host, name);
+  host.readFile = (name) => (name === fileName ? source : readFile.call(host, name));
+
+  const program = ts.createProgram([fileName], { ...options, noEmit: true }, host);
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
+
+suite('yaml parser', () => {
+  it('parses block and flow collections', () => {
+    const source = [
+      'name: fetch-client # a comment',
+      'tags: [a, "b c", 1]',
+      'nested:',
+      '  enabled: true',
+      '  empty: null',
+      '  items:',
+      '  - id: 1',
+      '    label: one',
+      '  - two',
+      'inline: { x: 1.5, y: ~ }',
+    ].join('\n');
+
+    expect(new FetchClientYamlParser(source).parse()).toEqual({
+      name: 'fetch-client',
+      tags: ['a', 'b c', 1],
+      nested: { enabled: true, empty: null, items: [{ id: 1, label: 'one' }, 'two'] },
+      inline: { x: 1.5, y: null },
+    });
+  });
+
+  it('parses block scalars', () => {
+    const source = ['literal: |', '  line one', '  line two', 'folded: >-', '  a', '  b'].join(
+      '\n'
+    );
+
+    expect(new FetchClientYamlParser(source).parse()).toEqual({
+      literal: 'line one\nline two\n',
+      folded: 'a b',
+    });
+  });
+
+  it('parses quoted keys', () => {
+    const source = [
+      '"a b": 1',
+      "'it''s': 2",
+      '"200":',
+      '  description: OK',
+      'flow: { "x y": 1, \'z\': 2 }',
+    ].join('\n');
+
+    expect(new FetchClientYamlParser(source).parse()).toEqual({
+      'a b': 1,
+      "it's": 2,
+      '200': { description: 'OK' },
+      'flow': { 'x y': 1, 'z': 2 },
+    });
+  });
+
+  it('parses flow collections spanning several lines', () => {
+    const source = [
+      'tags: [',
+      '  a,',
+      '  "b, c"',
+      ']',
+      'point: {',
+      '  x: 1,',
+      '  y: [2, 3] }',
+      'list:',
+      '  - [1,',
+      '     2]',
+    ].join('\n');
+
+    expect(new FetchClientYamlParser(source).parse()).toEqual({
+      tags: ['a', 'b, c'],
+      point: { x: 1, y: [2, 3] },
+      list: [[1, 2]],
+    });
+  });
+
+  it('ends block scalars at less indented comments', () => {
+    const source = [
+      'description: | # a comment on the header',
+      '  line one',
+      '  # part of the block',
+      '# a comment',
+      'nested:',
+      '  folded: >',
+      '    text',
+      '  # another comment',
+      '  next: 1',
+    ].join('\n');
+
+    expect(new FetchClientYamlParser(source).parse()).toEqual({
+      description: 'line one\n# part of the block\n',
+      nested: { folded: 'text\n', next: 1 },
+    });
+  });
+
+  it('reports indentation errors with the line number', () => {
+    expect(() => new FetchClientYamlParser('a:\n  b: 1\n   c: 2').parse()).toThrow(
+      'Invalid YAML at line 3'
+    );
+    expect(() => new FetchClientYamlParser('a:\n    b: 1\n  c: 2').parse()).toThrow(
+      'Invalid YAML at line 3: Unexpected indentation'
+    );
+    expect(() => new FetchClientYamlParser('a:\n\tb: 1').parse()).toThrow(
+      'Invalid YAML at line 2: Tabs are not allowed in indentation'
+    );
+  });
+
+  it('rejects unsupported features with the line number', () => {
+    expect(() => new FetchClientYamlParser('a: 1\nb: *alias').parse()).toThrow(
+      'Invalid YAML at line 2'
+    );
+  });
+});
+
+suite('openapi generator', () => {
+  it('parses JSON and YAML documents alike', () => {
+    const document: OpenApiDocument = {
+      openapi: '3.1.0',
+      info: { title: 'Test', version: '1' },
+    };
+
+    expect(parseOpenApiDocument(JSON.stringify(document))).toEqual(document);
+    expect(parseOpenApiDocument('openapi: 3.1.0\ninfo:\n  title: Test\n  version: "1"')).toEqual(
+      document
+    );
+  });
+
+  it('generates types for component schemas', () => {
+    const source = generateOpenApiClient(petstore);
+
+    expect(source).toContain("from 'fetch-client';");
+    expect(source).toContain(
+      [
+        'export type Pet = {',
+        '  id: number;',
+        '  name: string;',
+        '  tag?: string | null;',
+        "  status?: 'available' | 'sold';",
+        '};',
+      ].join('\n')
+    );
+  });
+
+  it('generates a typed function per operation', () => {
+    const source = generateOpenApiClient(petstore, { importPath: '../fetch-client' });
+
+    expect(source).toContain("from '../fetch-client';");
+    expect(source).toContain('export type ShowPetByIdResponse = Pet;');
+    expect(source).toContain('    petId: string;');
+    expect(source).toContain('    fields?: string[];');
+    expect(source).toContain('export function showPetById(');
+    expect(source).toContain('`/pets/${encodeURIComponent(String(options.params.petId))}`');
+    expect(source).toContain('function toSearchParams(');
+  });
+
+  it('types errors per declared error response', () => {
+    const source = generateOpenApiClient(petstore);
+
+    expect(source).toContain(
+      [
+        'export type ShowPetByIdError =',
+        '  | (FetchClientError<BodyInit, Problem> & { status: 404 })',
+        '  | (FetchClientError<BodyInit, unknown> & { status: number });',
+      ].join('\n')
+    );
+  });
+
+  it('generates a client that type-checks against the library', () => {
+    const source = generateOpenApiClient(petstore, { importPath: '../index' });
+    const usage = [
+      'export const created = (client: FetchClient, init: OperationInit) =>',
+      "  createPet(client, { body: { id: 1, name: 'Rex' } }, { ...init, timeout: 1000 });",
+      'export const shown = (client: FetchClient): Promise<Pet> =>',
+      "  showPetById(client, { params: { petId: '1' } }).json();",
+    ].join('\n');
+
+    expect(getTypeErrors(`${source}\n${usage}\n`)).toEqual([]);
+  }, 60_000);
+
+  it('rejects unsupported documents', () => {
+    expect(() => generateOpenApiClient('swagger: "2.0"')).toThrow('Unsupported OpenAPI version');
+    expect(() =>
+      generateOpenApiClient({
+        openapi: '3.0.0',
+        info: { title: 'Test', version: '1' },
+        components: { schemas: { Pet: { $ref: 'https://example.com/pet.json' } } },
+      })
+    ).toThrow('Only local references are supported');
+  });
+});
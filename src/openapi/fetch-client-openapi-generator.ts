@@ -0,0 +1,637 @@
+import FetchClientYamlParser from './fetch-client-yaml-parser';
+import {
+  FetchClientOpenApiGeneratorOptions,
+  OpenApiDocument,
+  OpenApiHttpMethod,
+  OpenApiMediaType,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiReference,
+  OpenApiResponse,
+  OpenApiSchema,
+} from './types';
+
+const DEFAULT_IMPORT_PATH = 'fetch-client';
+const HTTP_METHODS: OpenApiHttpMethod[] = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+];
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const JSON_MEDIA_TYPE_PATTERN = /^application\/(.+\+)?json\b/i;
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+const MAX_REF_DEPTH = 32;
+// Names declared by the generated module itself
+const RESERVED_TYPE_NAMES = [
+  'OperationInit',
+  'FetchClient',
+  'FetchClientError',
+  'FetchClientRequest',
+  'FetchClientResponsePromise',
+];
+const RESERVED_WORDS = new Set([
+  'await',
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'debugger',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'enum',
+  'export',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'function',
+  'if',
+  'implements',
+  'import',
+  'in',
+  'instanceof',
+  'interface',
+  'let',
+  'new',
+  'null',
+  'package',
+  'private',
+  'protected',
+  'public',
+  'return',
+  'static',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'typeof',
+  'var',
+  'void',
+  'while',
+  'with',
+  'yield',
+]);
+
+type GeneratedOperation = {
+  name: string;
+  typeName: string;
+  method: OpenApiHttpMethod;
+  path: string;
+  operation: OpenApiOperation;
+  parameters: OpenApiParameter[];
+};
+
+type GeneratedBody = {
+  type: string;
+  required: boolean;
+  isJson: boolean;
+};
+
+const HELPERS = {
+  toSearchParams: `function toSearchParams(query?: object): string[][] {
+  const entries: string[][] = [];
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    const values: unknown[] = Array.isArray(value) ? value : [value];
+    values
+      .filter((item) => item !== undefined && item !== null)
+      .forEach((item) => entries.push([key, String(item)]));
+  });
+  return entries;
+}`,
+  toHeaders: `function toHeaders(init?: HeadersInit, headers?: object): Headers {
+  const merged = new Headers(init);
+  Object.entries(headers ?? {}).forEach(([name, value]) => {
+    if (value !== undefined && value !== null) merged.set(name, String(value));
+  });
+  return merged;
+}`,
+};
+
+/**
+ * Generates a TypeScript module with one function per operation of an OpenAPI 3.0 or 3.1
+ * document, each built on `FetchClient.fetch` with typed parameters, body, response and errors.
+ */
+export default class FetchClientOpenApiGenerator {
+  private schemaNames = new Map<string, string>();
+  private usedNames = new Set<string>(RESERVED_TYPE_NAMES);
+  private usedHelpers = new Set<keyof typeof HELPERS>();
+
+  constructor(
+    private document: OpenApiDocument,
+    private options: FetchClientOpenApiGeneratorOptions = {}
+  ) {
+    if (typeof document?.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+      throw new Error(
+        `Unsupported OpenAPI version ${document?.openapi}, only 3.0 and 3.1 are supported`
+      );
+    }
+  }
+
+  private splitWords(value: string): string[] {
+    return value
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean);
+  }
+
+  private toPascalCase(value: string): string {
+    const name = this.splitWords(value)
+      .map((word) => word[0].toUpperCase() + word.slice(1))
+      .join('');
+    if (!name) return 'Unnamed';
+    return /^\d/.test(name) ? `_${name}` : name;
+  }
+
+  private toCamelCase(value: string): string {
+    const name = this.toPascalCase(value);
+    const camelCased = name[0].toLowerCase() + name.slice(1);
+    return RESERVED_WORDS.has(camelCased) ? `${camelCased}_` : camelCased;
+  }
+
+  private reserveName(base: string, suffixes: string[] = ['']): string {
+    let name = base;
+    for (let i = 2; suffixes.some((suffix) => this.usedNames.has(name + suffix)); i++) {
+      name = `${base}${i}`;
+    }
+    suffixes.forEach((suffix) => this.usedNames.add(name + suffix));
+    return name;
+  }
+
+  private toStringLiteral(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  }
+
+  private toLiteral(value: unknown): string {
+    return typeof value === 'string' ? this.toStringLiteral(value) : JSON.stringify(value);
+  }
+
+  private toPropertyKey(name: string): string {
+    return IDENTIFIER_PATTERN.test(name) ? name : this.toStringLiteral(name);
+  }
+
+  private toPropertyAccess(object: string, name: string): string {
+    return IDENTIFIER_PATTERN.test(name)
+      ? `${object}.${name}`
+      : `${object}[${this.toStringLiteral(name)}]`;
+  }
+
+  private toDocComment(lines: (string | undefined)[], indent: string): string {
+    const content = lines
+      .filter((line): line is string => line !== undefined)
+      .join('\n\n')
+      .replace(/\*\//g, '*\\/')
+      .trim();
+    if (!content) return '';
+    const body = content
+      .split('\n')
+      .map((line) => `${indent} *${line ? ` ${line}` : ''}`)
+      .join('\n');
+    return `${indent}/**\n${body}\n${indent} */\n`;
+  }
+
+  private isReference(value: unknown): value is OpenApiReference {
+    return typeof value === 'object' && value !== null && '$ref' in value;
+  }
+
+  private resolve<T>(value: T | OpenApiReference): T {
+    let resolved: unknown = value;
+    for (let depth = 0; this.isReference(resolved); depth++) {
+      if (depth >= MAX_REF_DEPTH) throw new Error(`Circular reference ${resolved.$ref}`);
+
+      const ref = resolved.$ref;
+      if (!ref.startsWith('#/')) {
+        throw new Error(`Only local references are supported, got ${ref}`);
+      }
+      resolved = ref
+        .slice(2)
+        .split('/')
+        .map((segment) => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+        .reduce<unknown>((node, segment) => {
+          const child = (node as Record<string, unknown> | undefined)?.[segment];
+          if (child === undefined) throw new Error(`Unresolvable reference ${ref}`);
+          return child;
+        }, this.document);
+    }
+    return resolved as T;
+  }
+
+  private isObjectLiteral(type: string): boolean {
+    if (!type.startsWith('{')) return false;
+    let depth = 0;
+    for (let i = 0; i < type.length; i++) {
+      if (type[i] === '{') depth++;
+      if (type[i] === '}') depth--;
+      // The first brace must close at the very end for the type to be a single literal
+      if (depth === 0) return i === type.length - 1;
+    }
+    return false;
+  }
+
+  private wrapType(type: string): string {
+    if (/^[\w.$<>[\]'"]+$/.test(type) || this.isObjectLiteral(type)) return type;
+    return `(${type})`;
+  }
+
+  private joinTypes(types: string[], separator: ' | ' | ' & '): string {
+    const unique = Array.from(new Set(types));
+    if (unique.length === 1) return unique[0];
+    return unique.map((type) => this.wrapType(type)).join(separator);
+  }
+
+  private toType(schema: OpenApiSchema | OpenApiReference | undefined, indent = ''): string {
+    if (!schema) return 'unknown';
+
+    if (this.isReference(schema)) {
+      const name = schema.$ref.startsWith(SCHEMA_REF_PREFIX)
+        ? this.schemaNames.get(schema.$ref.slice(SCHEMA_REF_PREFIX.length))
+        : undefined;
+      return name ?? this.toType(this.resolve(schema), indent);
+    }
+
+    const type = this.toBaseType(schema, indent);
+    return schema.nullable ? this.joinTypes([type, 'null'], ' | ') : type;
+  }
+
+  private toBaseType(schema: OpenApiSchema, indent: string): string {
+    if (schema.const !== undefined) return this.toLiteral(schema.const);
+    if (schema.enum) {
+      return this.joinTypes(
+        schema.enum.map((value) => this.toLiteral(value)),
+        ' | '
+      );
+    }
+
+    if (schema.allOf) {
+      return this.joinTypes(
+        schema.allOf.map((item) => this.toType(item, indent)),
+        ' & '
+      );
+    }
+    const variants = schema.oneOf ?? schema.anyOf;
+    if (variants) {
+      return this.joinTypes(
+        variants.map((item) => this.toType(item, indent)),
+        ' | '
+      );
+    }
+
+    let types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    if (!types.length && (schema.properties || schema.additionalProperties)) types = ['object'];
+    if (!types.length && schema.items) types = ['array'];
+    if (!types.length) return 'unknown';
+
+    return this.joinTypes(
+      types.map((type) => {
+        switch (type) {
+          case 'string':
+            return schema.format === 'binary' ? 'Blob' : 'string';
+          case 'integer':
+          case 'number':
+            return 'number';
+          case 'boolean':
+            return 'boolean';
+          case 'null':
+            return 'null';
+          case 'array':
+            return `${this.wrapType(this.toType(schema.items, indent))}[]`;
+          case 'object':
+            return this.toObjectType(schema, indent);
+          default:
+            return 'unknown';
+        }
+      }),
+      ' | '
+    );
+  }
+
+  private toObjectType(schema: OpenApiSchema, indent: string): string {
+    const properties = Object.entries(schema.properties ?? {});
+    const additionalProperties = schema.additionalProperties;
+    const additionalType =
+      additionalProperties === undefined || additionalProperties === false
+        ? undefined
+        : additionalProperties === true
+        ? 'unknown'
+        : this.toType(additionalProperties, indent);
+
+    if (!properties.length) {
+      return additionalProperties === false
+        ? 'Record<string, never>'
+        : `Record<string, ${additionalType ?? 'unknown'}>`;
+    }
+
+    const memberIndent = `${indent}  `;
+    const required = new Set(schema.required ?? []);
+    const members = properties.map(([name, property]) => {
+      const description = this.isReference(property) ? undefined : property.description;
+      const optional = required.has(name) ? '' : '?';
+      const type = this.toType(property, memberIndent);
+      return `${this.toDocComment([description], memberIndent)}${memberIndent}${this.toPropertyKey(
+        name
+      )}${optional}: ${type};`;
+    });
+    if (additionalType) {
+      // Declared properties must be assignable to the index signature
+      members.push(`${memberIndent}[key: string]: unknown;`);
+    }
+    return `{\n${members.join('\n')}\n${indent}}`;
+  }
+
+  private findMediaType(
+    content: Record<string, OpenApiMediaType> | undefined
+  ): [string, OpenApiMediaType] | undefined {
+    const entries = Object.entries(content ?? {});
+    return entries.find(([type]) => JSON_MEDIA_TYPE_PATTERN.test(type)) ?? entries[0];
+  }
+
+  private toContentType(content: Record<string, OpenApiMediaType> | undefined): string {
+    const mediaType = this.findMediaType(content);
+    if (!mediaType) return 'undefined';
+
+    const [type, { schema }] = mediaType;
+    if (JSON_MEDIA_TYPE_PATTERN.test(type)) return this.toType(schema);
+    if (type.startsWith('text/')) return 'string';
+    return 'Blob';
+  }
+
+  private getRequestBody(operation: OpenApiOperation): GeneratedBody | undefined {
+    if (!operation.requestBody) return undefined;
+
+    const requestBody = this.resolve(operation.requestBody);
+    const mediaType = this.findMediaType(requestBody.content);
+    if (!mediaType) return undefined;
+
+    const [type, { schema }] = mediaType;
+    const required = requestBody.required === true;
+    if (JSON_MEDIA_TYPE_PATTERN.test(type)) {
+      return { type: this.toType(schema), required, isJson: true };
+    }
+    if (type === 'multipart/form-data') return { type: 'FormData', required, isJson: false };
+    if (type === 'application/x-www-form-urlencoded') {
+      return { type: 'URLSearchParams', required, isJson: false };
+    }
+    if (type.startsWith('text/')) return { type: 'string', required, isJson: false };
+    return { type: 'BodyInit', required, isJson: false };
+  }
+
+  private getResponseType(operation: OpenApiOperation): string {
+    const types = Object.entries(operation.responses ?? {})
+      .filter(([status]) => /^2(\d\d|XX)$/i.test(status))
+      .map(([, response]) => this.toContentType(this.resolve<OpenApiResponse>(response).content));
+    return types.length ? this.joinTypes(types, ' | ') : 'unknown';
+  }
+
+  private getErrorDeclarations(
+    typeName: string,
+    operation: OpenApiOperation,
+    requestBodyType: string
+  ): string[] {
+    const declarations: string[] = [];
+    const errors = Object.entries(operation.responses ?? {})
+      .filter(([status]) => !/^[123](\d\d|XX)$/i.test(status))
+      .map(([status, response]) => {
+        const content = this.resolve<OpenApiResponse>(response).content;
+        let bodyType = content ? this.toContentType(content) : 'unknown';
+        // Declare inline object types separately to keep the error union readable
+        if (bodyType.includes('\n')) {
+          const statusName = /^\d/.test(status) ? status.toUpperCase() : this.toPascalCase(status);
+          const bodyTypeName = this.reserveName(`${typeName}${statusName}ErrorBody`);
+          declarations.push(`export type ${bodyTypeName} = ${bodyType};`);
+          bodyType = bodyTypeName;
+        }
+        const statusType = /^\d{3}$/.test(status) ? status : 'number';
+        return `FetchClientError<${requestBodyType}, ${bodyType}> & { status: ${statusType} }`;
+      });
+
+    const errorType = !errors.length
+      ? `FetchClientError<${requestBodyType}>`
+      : errors.length === 1
+      ? errors[0]
+      : errors.map((error) => `\n  | (${error})`).join('');
+    declarations.push(
+      `export type ${typeName}Error =${errorType.startsWith('\n') ? '' : ' '}${errorType};`
+    );
+    return declarations;
+  }
+
+  private toParameterGroup(parameters: OpenApiParameter[], indent: string): string {
+    const members = parameters.map((parameter) => {
+      const optional = parameter.required || parameter.in === 'path' ? '' : '?';
+      return `${this.toDocComment([parameter.description], indent)}${indent}${this.toPropertyKey(
+        parameter.name
+      )}${optional}: ${this.toType(parameter.schema, indent)};`;
+    });
+    return `{\n${members.join('\n')}\n${indent.slice(2)}}`;
+  }
+
+  private toUrlExpression(path: string, parameters: OpenApiParameter[]): string {
+    const pathParameters = new Set(
+      parameters.filter((parameter) => parameter.in === 'path').map((parameter) => parameter.name)
+    );
+    const url = path
+      .split(/(\{[^}]+\})/)
+      .map((part) => {
+        const name = /^\{([^}]+)\}$/.exec(part)?.[1];
+        if (name === undefined || !pathParameters.has(name)) {
+          return part.replace(/[`\\]/g, '\\$&').replace(/\$\{/g, '\\${');
+        }
+        const value = this.toPropertyAccess('options.params', name);
+        return `\${encodeURIComponent(String(${value}))}`;
+      })
+      .join('');
+    return `\`${url}\``;
+  }
+
+  private collectOperations(): GeneratedOperation[] {
+    const operations: GeneratedOperation[] = [];
+
+    Object.entries(this.document.paths ?? {}).forEach(([path, pathItem]) => {
+      const pathParameters = (pathItem.parameters ?? []).map((parameter) =>
+        this.resolve(parameter)
+      );
+
+      HTTP_METHODS.forEach((method) => {
+        const operation = pathItem[method];
+        if (!operation) return;
+
+        // Operation parameters override path parameters with the same name and location
+        const parameters = new Map<string, OpenApiParameter>();
+        [...pathParameters, ...(operation.parameters ?? []).map((item) => this.resolve(item))]
+          .filter((parameter) => parameter.in !== 'cookie')
+          .forEach((parameter) => parameters.set(`${parameter.in}:${parameter.name}`, parameter));
+
+        const baseName = operation.operationId ?? `${method} ${path.replace(/[{}]/g, '')}`;
+        const name = this.reserveName(this.toCamelCase(baseName));
+        const typeName = this.reserveName(this.toPascalCase(baseName), [
+          'Options',
+          'Response',
+          'Error',
+        ]);
+        operations.push({
+          name,
+          typeName,
+          method,
+          path,
+          operation,
+          parameters: Array.from(parameters.values()),
+        });
+      });
+    });
+
+    return operations;
+  }
+
+  private generateSchemas(): string[] {
+    const schemas = Object.entries(this.document.components?.schemas ?? {});
+    // Reserve every name first, so schemas can reference ones declared later
+    schemas.forEach(([name]) => {
+      this.schemaNames.set(name, this.reserveName(this.toPascalCase(name)));
+    });
+
+    return schemas.map(([name, schema]) => {
+      const description = this.isReference(schema) ? undefined : schema.description;
+      const typeName = this.schemaNames.get(name)!;
+      const type = this.isReference(schema)
+        ? this.toType(this.resolve(schema))
+        : this.toType(schema);
+      return `${this.toDocComment([description], '')}export type ${typeName} = ${type};`;
+    });
+  }
+
+  private generateOperation(generated: GeneratedOperation): string {
+    const { name, typeName, method, path, operation, parameters } = generated;
+    const body = this.getRequestBody(operation);
+    const responseType = `${typeName}Response`;
+    const requestBodyType = body?.isJson ? body.type : 'BodyInit';
+
+    const groups = [
+      { key: 'params', location: 'path' },
+      { key: 'query', location: 'query' },
+      { key: 'headers', location: 'header' },
+    ]
+      .map((group) => ({
+        ...group,
+        parameters: parameters.filter((parameter) => parameter.in === group.location),
+      }))
+      .filter((group) => group.parameters.length > 0);
+
+    const members = groups.map(({ key, location, parameters: groupParameters }) => {
+      const required =
+        location === 'path' || groupParameters.some((parameter) => parameter.required);
+      return `  ${key}${required ? '' : '?'}: ${this.toParameterGroup(groupParameters, '    ')};`;
+    });
+    if (body) {
+      members.push(`  body${body.required ? '' : '?'}: ${body.type};`);
+    }
+    const hasRequiredOptions = members.some((member) => /^ {2}\w+:/.test(member));
+
+    const declarations: string[] = [];
+    if (members.length) {
+      declarations.push(`export interface ${typeName}Options {\n${members.join('\n')}\n}`);
+    }
+    declarations.push(`export type ${responseType} = ${this.getResponseType(operation)};`);
+    declarations.push(...this.getErrorDeclarations(typeName, operation, requestBodyType));
+
+    const requestInit = ['    ...init,', `    method: '${method.toUpperCase()}',`];
+    if (groups.some((group) => group.key === 'query')) {
+      this.usedHelpers.add('toSearchParams');
+      requestInit.push('    searchParams: toSearchParams(options.query),');
+    }
+    if (groups.some((group) => group.key === 'headers')) {
+      this.usedHelpers.add('toHeaders');
+      requestInit.push('    headers: toHeaders(init?.headers, options.headers),');
+    }
+    if (body) {
+      requestInit.push(`    ${body.isJson ? 'json' : 'body'}: options.body,`);
+    }
+
+    const signature = [
+      '  client: FetchClient,',
+      ...(members.length
+        ? [`  options: ${typeName}Options${hasRequiredOptions ? '' : ' = {}'},`]
+        : []),
+      '  init?: OperationInit',
+    ];
+    const generics = body?.isJson ? `${responseType}, ${body.type}` : responseType;
+    const doc = this.toDocComment(
+      [
+        operation.summary,
+        operation.description,
+        `\`${method.toUpperCase()} ${path}\``,
+        operation.deprecated ? '@deprecated' : undefined,
+      ],
+      ''
+    );
+
+    const fn = `${doc}export function ${name}(
+${signature.join('\n')}
+): FetchClientResponsePromise<${generics}> {
+  return client.fetch<${generics}>(${this.toUrlExpression(path, parameters)}, {
+${requestInit.join('\n')}
+  });
+}`;
+
+    return [...declarations, fn].join('\n\n');
+  }
+
+  public generate(): string {
+    const { title, version } = this.document.info ?? {};
+    const importPath = this.options.importPath ?? DEFAULT_IMPORT_PATH;
+
+    const schemas = this.generateSchemas();
+    const operations = this.collectOperations().map((operation) =>
+      this.generateOperation(operation)
+    );
+    const helpers = Array.from(this.usedHelpers).map((helper) => HELPERS[helper]);
+
+    const sections = [
+      `// Generated from the OpenAPI document "${title ?? 'Untitled'}" ${version ?? ''}`.trimEnd() +
+        '. Do not edit.',
+      `import type {\n  FetchClient,\n  FetchClientError,\n  FetchClientRequest,\n  FetchClientResponsePromise,\n} from ${this.toStringLiteral(
+        importPath
+      )};`,
+      `export type OperationInit = Omit<\n  FetchClientRequest,\n  'method' | 'body' | 'json' | 'payload' | 'searchParams' | 'schema'\n>;`,
+      ...schemas,
+      ...operations,
+      ...helpers,
+    ];
+    return `${sections.join('\n\n')}\n`;
+  }
+}
+
+/**
+ * Parses an OpenAPI document from its JSON or YAML source.
+ */
+export function parseOpenApiDocument(source: string): OpenApiDocument {
+  const trimmed = source.trim();
+  const document = trimmed.startsWith('{')
+    ? JSON.parse(trimmed)
+    : new FetchClientYamlParser(source).parse();
+  if (typeof document !== 'object' || document === null) {
+    throw new Error('The OpenAPI document must be an object');
+  }
+  return document as OpenApiDocument;
+}
+
+/**
+ * Generates the TypeScript source of a typed client for an OpenAPI document, given either
+ * the document itself or its JSON or YAML source.
+ */
+export function generateOpenApiClient(
+  document: OpenApiDocument | string,
+  options: FetchClientOpenApiGeneratorOptions = {}
+): string {
+  const parsed = typeof document === 'string' ? parseOpenApiDocument(document) : document;
+  return new FetchClientOpenApiGenerator(parsed, options).generate();
+}
@@ -0,0 +1,394 @@
+type YamlLine = {
+  lineNumber: number;
+  indent: number;
+  raw: string;
+  /**
+   * The line without indentation, trailing whitespace and comments.
+   */
+  text: string;
+};
+
+type FlowCursor = { text: string; position: number; lineNumber: number };
+
+const NULL_VALUES = ['', '~', 'null', 'Null', 'NULL'];
+const TRUE_VALUES = ['true', 'True', 'TRUE'];
+const FALSE_VALUES = ['false', 'False', 'FALSE'];
+const INTEGER_PATTERN = /^[-+]?(0|[1-9]\d*)$/;
+const FLOAT_PATTERN = /^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Parser for the subset of YAML used by OpenAPI documents: block mappings and sequences,
+ * flow collections, plain and quoted scalars, and literal or folded block scalars.
+ * Anchors, aliases, tags and multiple documents are not supported.
+ */
+export default class FetchClientYamlParser {
+  private lines: YamlLine[];
+  private index = 0;
+
+  constructor(source: string) {
+    this.lines = source.split(/\r?\n/).map((raw, i) => {
+      const indentation = /^[ \t]*/.exec(raw)![0];
+      if (indentation.includes('\t') && raw.trim()) {
+        throw this.error('Tabs are not allowed in indentation', i + 1);
+      }
+      return {
+        lineNumber: i + 1,
+        indent: indentation.length,
+        raw,
+        text: this.stripComment(raw.slice(indentation.length)).trimEnd(),
+      };
+    });
+  }
+
+  private error(message: string, lineNumber: number): Error {
+    return new Error(`Invalid YAML at line ${lineNumber}: ${message}`);
+  }
+
+  private stripComment(text: string): string {
+    let quote: string | undefined;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      const previous = i > 0 ? text[i - 1] : ' ';
+      if (quote) {
+        if (char === quote) quote = undefined;
+      } else if ((char === '"' || char === "'") && /[\s[{,:]/.test(previous)) {
+        quote = char;
+      } else if (char === '#' && /\s/.test(previous)) {
+        return text.slice(0, i);
+      }
+    }
+    return text;
+  }
+
+  /**
+   * Moves to the next line with content, skipping blank lines, comments and document markers.
+   */
+  private peek(): YamlLine | undefined {
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.text && line.text !== '---' && line.text !== '...') return line;
+      this.index++;
+    }
+    return undefined;
+  }
+
+  private isSequenceItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ');
+  }
+
+  private splitMappingEntry(text: string): { key: string; rest: string } | undefined {
+    if (text.startsWith('[') || text.startsWith('{') || this.isSequenceItem(text)) {
+      return undefined;
+    }
+
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const end = this.findClosingQuote(text, 0);
+      if (end === -1) return undefined;
+      const after = text.slice(end + 1).trimStart();
+      if (!after.startsWith(':') || (after.length > 1 && after[1] !== ' ')) return undefined;
+      return { key: String(this.parseScalar(text.slice(0, end + 1))), rest: after.slice(1).trim() };
+    }
+
+    const match = /:( |$)/.exec(text);
+    if (!match) return undefined;
+    return { key: text.slice(0, match.index).trim(), rest: text.slice(match.index + 1).trim() };
+  }
+
+  private findClosingQuote(text: string, start: number): number {
+    const quote = text[start];
+    for (let i = start + 1; i < text.length; i++) {
+      if (quote === '"' && text[i] === '\\') {
+        i++;
+      } else if (text[i] === quote) {
+        // Two single quotes are an escaped single quote
+        if (quote === "'" && text[i + 1] === "'") {
+          i++;
+          continue;
+        }
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private parseScalar(text: string): unknown {
+    if (text.startsWith('"')) {
+      const content = text.slice(1, -1);
+      try {
+        return JSON.parse(`"${content.replace(/\n/g, '\\n')}"`);
+      } catch {
+        return content;
+      }
+    }
+    if (text.startsWith("'")) {
+      return text.slice(1, -1).replace(/''/g, "'");
+    }
+
+    if (NULL_VALUES.includes(text)) return null;
+    if (TRUE_VALUES.includes(text)) return true;
+    if (FALSE_VALUES.includes(text)) return false;
+    if (INTEGER_PATTERN.test(text) || FLOAT_PATTERN.test(text)) return Number(text);
+    if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text.slice(2), 16);
+    if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8);
+    if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+    if (/^\.(nan|NaN|NAN)$/.test(text)) return NaN;
+    return text;
+  }
+
+  private parseNode(indent: number): unknown {
+    const line = this.peek();
+    if (!line) return null;
+
+    if (this.isSequenceItem(line.text)) return this.parseSequence(indent);
+    if (this.splitMappingEntry(line.text)) return this.parseMapping(indent);
+
+    this.index++;
+    return this.parseValue(line.text, indent - 1, line.lineNumber);
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (let line = this.peek(); line && line.indent >= indent; line = this.peek()) {
+      if (line.indent > indent) throw this.error('Unexpected indentation', line.lineNumber);
+
+      const entry = this.splitMappingEntry(line.text);
+      if (!entry) throw this.error('Expected a mapping entry', line.lineNumber);
+      if (entry.key === '<<') throw this.error('Merge keys are not supported', line.lineNumber);
+
+      this.index++;
+      result[entry.key] = this.parseEntryValue(entry.rest, indent, line.lineNumber);
+    }
+
+    return result;
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const result: unknown[] = [];
+
+    for (let line = this.peek(); line && line.indent >= indent; line = this.peek()) {
+      if (line.indent > indent) throw this.error('Unexpected indentation', line.lineNumber);
+      if (!this.isSequenceItem(line.text)) break;
+
+      const itemText = line.text.slice(1).trimStart();
+      const itemIndent = indent + line.text.length - itemText.length;
+
+      if (itemText && (this.isSequenceItem(itemText) || this.splitMappingEntry(itemText))) {
+        // A nested collection starting on the same line as its dash
+        this.lines[this.index] = { ...line, indent: itemIndent, text: itemText };
+        result.push(this.parseNode(itemIndent));
+      } else {
+        this.index++;
+        result.push(this.parseItemValue(itemText, indent, line.lineNumber));
+      }
+    }
+
+    return result;
+  }
+
+  private parseEntryValue(rest: string, indent: number, lineNumber: number): unknown {
+    if (rest) return this.parseValue(rest, indent, lineNumber);
+
+    const next = this.peek();
+    if (next && next.indent > indent) return this.parseNode(next.indent);
+    // Sequences may be indented at the same level as the key they belong to
+    if (next && next.indent === indent && this.isSequenceItem(next.text)) {
+      return this.parseSequence(indent);
+    }
+    return null;
+  }
+
+  private parseItemValue(rest: string, indent: number, lineNumber: number): unknown {
+    if (rest) return this.parseValue(rest, indent, lineNumber);
+
+    const next = this.peek();
+    if (next && next.indent > indent) return this.parseNode(next.indent);
+    return null;
+  }
+
+  /**
+   * Parses an inline value, which may continue on the following, more indented lines.
+   */
+  private parseValue(text: string, parentIndent: number, lineNumber: number): unknown {
+    if (/^[&*!]/.test(text)) {
+      throw this.error('Anchors, aliases and tags are not supported', lineNumber);
+    }
+    if (/^[|>]/.test(text)) {
+      return this.parseBlockScalar(text, parentIndent, lineNumber);
+    }
+
+    let value = text;
+    const isFlow = text.startsWith('[') || text.startsWith('{');
+    const isQuoted = text.startsWith('"') || text.startsWith("'");
+    for (
+      let next = this.peek();
+      next &&
+      this.isContinuation(next, parentIndent, isFlow) &&
+      !this.isComplete(value, isFlow, isQuoted);
+      next = this.peek()
+    ) {
+      // Plain scalars cannot span mapping entries, which are only more indented by mistake
+      if (!isFlow && !isQuoted && this.splitMappingEntry(next.text)) {
+        throw this.error('Unexpected indentation', next.lineNumber);
+      }
+      value += ` ${isQuoted ? next.raw.trim() : next.text}`;
+      this.index++;
+    }
+
+    if (isFlow) {
+      const cursor: FlowCursor = { text: value, position: 0, lineNumber };
+      const result = this.parseFlowValue(cursor);
+      this.skipWhitespace(cursor);
+      if (cursor.position < value.length) {
+        throw this.error('Unexpected content after flow collection', lineNumber);
+      }
+      return result;
+    }
+    if (isQuoted && this.findClosingQuote(value, 0) !== value.length - 1) {
+      throw this.error('Unterminated quoted scalar', lineNumber);
+    }
+    return this.parseScalar(value);
+  }
+
+  private isContinuation(line: YamlLine, parentIndent: number, isFlow: boolean): boolean {
+    if (line.indent > parentIndent) return true;
+    // The closing bracket of a flow collection may be aligned with its key
+    return isFlow && line.indent === parentIndent && /^[\]}]/.test(line.text);
+  }
+
+  private isComplete(value: string, isFlow: boolean, isQuoted: boolean): boolean {
+    if (isQuoted) return this.findClosingQuote(value, 0) !== -1;
+    if (!isFlow) return false;
+
+    let depth = 0;
+    for (let i = 0; i < value.length; i++) {
+      const char = value[i];
+      if (char === '"' || char === "'") {
+        const end = this.findClosingQuote(value, i);
+        if (end === -1) return false;
+        i = end;
+      } else if (char === '[' || char === '{') {
+        depth++;
+      } else if (char === ']' || char === '}') {
+        depth--;
+      }
+    }
+    return depth <= 0;
+  }
+
+  private parseBlockScalar(header: string, parentIndent: number, lineNumber: number): string {
+    const match = /^([|>])([-+]?)\d*([-+]?)$/.exec(header);
+    if (!match) throw this.error('Invalid block scalar header', lineNumber);
+    const [, style, chompBefore, chompAfter] = match;
+    const chomping = chompBefore || chompAfter;
+
+    const contentLines: YamlLine[] = [];
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.raw.trim() && line.indent <= parentIndent) break;
+      contentLines.push(line);
+      this.index++;
+    }
+
+    const blockIndent = Math.min(
+      ...contentLines.filter((line) => line.raw.trim()).map((line) => line.indent)
+    );
+    const texts = contentLines.map((line) => (line.raw.trim() ? line.raw.slice(blockIndent) : ''));
+
+    let content: string;
+    if (style === '|') {
+      content = texts.join('\n');
+    } else {
+      // Folded scalars join lines with spaces, keeping blank and more indented lines
+      content = texts.reduce((folded, text, i) => {
+        if (i === 0) return text;
+        const previous = texts[i - 1];
+        const isFoldable = text && previous && !/^\s/.test(text) && !/^\s/.test(previous);
+        return folded + (isFoldable ? ' ' : '\n') + text;
+      }, '');
+    }
+
+    const trimmed = content.replace(/\n+$/, '');
+    if (chomping === '-') return trimmed;
+    if (chomping === '+') return `${content}\n`;
+    return trimmed ? `${trimmed}\n` : '';
+  }
+
+  private skipWhitespace(cursor: FlowCursor): void {
+    while (cursor.position < cursor.text.length && /\s/.test(cursor.text[cursor.position])) {
+      cursor.position++;
+    }
+  }
+
+  private parseFlowValue(cursor: FlowCursor, isKey = false): unknown {
+    this.skipWhitespace(cursor);
+    const char = cursor.text[cursor.position];
+
+    if (char === '[') return this.parseFlowCollection(cursor, ']');
+    if (char === '{') return this.parseFlowCollection(cursor, '}');
+
+    if (char === '"' || char === "'") {
+      const end = this.findClosingQuote(cursor.text, cursor.position);
+      if (end === -1) throw this.error('Unterminated quoted scalar', cursor.lineNumber);
+      const value = this.parseScalar(cursor.text.slice(cursor.position, end + 1));
+      cursor.position = end + 1;
+      return value;
+    }
+
+    const start = cursor.position;
+    while (cursor.position < cursor.text.length) {
+      const current = cursor.text[cursor.position];
+      const next = cursor.text[cursor.position + 1];
+      if (current === ',' || current === ']' || current === '}') break;
+      if (isKey && current === ':' && (next === undefined || /[\s,\]}]/.test(next))) break;
+      cursor.position++;
+    }
+    return this.parseScalar(cursor.text.slice(start, cursor.position).trim());
+  }
+
+  private parseFlowCollection(cursor: FlowCursor, closing: ']' | '}'): unknown {
+    const isMapping = closing === '}';
+    const sequence: unknown[] = [];
+    const mapping: Record<string, unknown> = {};
+    cursor.position++;
+
+    for (;;) {
+      this.skipWhitespace(cursor);
+      if (cursor.text[cursor.position] === closing) {
+        cursor.position++;
+        return isMapping ? mapping : sequence;
+      }
+
+      if (isMapping) {
+        const key = String(this.parseFlowValue(cursor, true));
+        this.skipWhitespace(cursor);
+        let value: unknown = null;
+        if (cursor.text[cursor.position] === ':') {
+          cursor.position++;
+          value = this.parseFlowValue(cursor);
+        }
+        mapping[key] = value;
+      } else {
+        sequence.push(this.parseFlowValue(cursor));
+      }
+
+      this.skipWhitespace(cursor);
+      const separator = cursor.text[cursor.position];
+      if (separator === ',') {
+        cursor.position++;
+      } else if (separator !== closing) {
+        throw this.error(`Expected "," or "${closing}" in flow collection`, cursor.lineNumber);
+      }
+    }
+  }
+
+  public parse(): unknown {
+    const first = this.peek();
+    if (!first) return null;
+
+    const value = this.parseNode(first.indent);
+    const rest = this.peek();
+    if (rest) throw this.error('Unexpected content', rest.lineNumber);
+    return value;
+  }
+}
@@ -0,0 +1,7 @@
+export {
+  default as FetchClientOpenApiGenerator,
+  generateOpenApiClient,
+  parseOpenApiDocument,
+} from './fetch-client-openapi-generator';
+export { default as FetchClientYamlParser } from './fetch-client-yaml-parser';
+export * from './types';
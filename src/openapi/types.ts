@@ -0,0 +1,95 @@
+export interface OpenApiReference {
+  $ref: string;
+}
+
+export interface OpenApiSchema {
+  /**
+   * A single type, or in OpenAPI 3.1 a list of types such as `['string', 'null']`.
+   */
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  /**
+   * OpenAPI 3.0 only; 3.1 documents use a `null` type instead.
+   */
+  nullable?: boolean;
+  items?: OpenApiSchema | OpenApiReference;
+  properties?: Record<string, OpenApiSchema | OpenApiReference>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema | OpenApiReference;
+  oneOf?: (OpenApiSchema | OpenApiReference)[];
+  anyOf?: (OpenApiSchema | OpenApiReference)[];
+  allOf?: (OpenApiSchema | OpenApiReference)[];
+}
+
+export interface OpenApiMediaType {
+  schema?: OpenApiSchema | OpenApiReference;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  description?: string;
+  required?: boolean;
+  schema?: OpenApiSchema | OpenApiReference;
+}
+
+export interface OpenApiRequestBody {
+  description?: string;
+  required?: boolean;
+  content: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiResponse {
+  description?: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  parameters?: (OpenApiParameter | OpenApiReference)[];
+  requestBody?: OpenApiRequestBody | OpenApiReference;
+  responses?: Record<string, OpenApiResponse | OpenApiReference>;
+}
+
+export type OpenApiHttpMethod =
+  | 'get'
+  | 'put'
+  | 'post'
+  | 'delete'
+  | 'options'
+  | 'head'
+  | 'patch'
+  | 'trace';
+
+export type OpenApiPathItem = { [Method in OpenApiHttpMethod]?: OpenApiOperation } & {
+  parameters?: (OpenApiParameter | OpenApiReference)[];
+};
+
+/**
+ * The parts of an OpenAPI 3.0 or 3.1 document used by the generator.
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string };
+  paths?: Record<string, OpenApiPathItem>;
+  components?: {
+    schemas?: Record<string, OpenApiSchema | OpenApiReference>;
+    parameters?: Record<string, OpenApiParameter | OpenApiReference>;
+    requestBodies?: Record<string, OpenApiRequestBody | OpenApiReference>;
+    responses?: Record<string, OpenApiResponse | OpenApiReference>;
+  };
+}
+
+export interface FetchClientOpenApiGeneratorOptions {
+  /**
+   * The module the generated code imports FetchClient types from.
+   * @default 'fetch-client'
+   */
+  importPath?: string;
+}
@@ -0,0 +1,130 @@
+import { beforeEach, expect, it, suite, vi } from 'vitest';
+
+import FetchClient from '../fetch-client';
+import FetchClientHarTransport from './fetch-client-har-transport';
+import { FetchClientHar } from './types';
+
+const networkMock = vi.fn<Parameters<typeof fetch>, ReturnType<typeof fetch>>();
+
+let har: FetchClientHar;
+
+beforeEach(async () => {
+  networkMock.mockReset();
+  networkMock.mockImplementation(async (input) => {
+    const request = input as Request;
+    if (request.url.endsWith('/avatar')) {
+      return new Response(new Uint8Array([0, 159, 255]), {
+        headers: { 'Content-Type': 'image/png' },
+      });
+    }
+    const body = request.body ? await request.text() : '';
+    return new Response(
+      JSON.stringify({ url: request.url, body, n: networkMock.mock.calls.length }),
+      {
+        headers: { 'Content-Type': 'application/json', 'Set-Cookie': 'session=secret' },
+      }
+    );
+  });
+
+  const recorder = new FetchClientHarTransport({ mode: 'record', fetch: networkMock });
+  const client = new FetchClient({ baseUrl: 'https://api.com', fetch: recorder.fetch });
+  await client.get('/users', { searchParams: { page: 1 }, headers: { Authorization: 'Bearer t' } });
+  await client.get('/users', { searchParams: { page: 1 } });
+  await client.post('/users', { json: { name: 'Ada' } });
+  await client.get('/avatar');
+  // Saving the document to a file and loading it back
+  har = JSON.parse(JSON.stringify(await recorder.toHar()));
+  networkMock.mockClear();
+});
+
+suite('recording', () => {
+  it('records requests and responses as HAR entries', () => {
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.entries).toHaveLength(4);
+
+    const [get, , post, avatar] = har.log.entries;
+    expect(get.request).toMatchObject({
+      method: 'GET',
+      url: 'https://api.com/users?page=1',
+      queryString: [{ name: 'page', value: '1' }],
+    });
+    expect(get.response).toMatchObject({ status: 200, content: { mimeType: 'application/json' } });
+    expect(post.request.postData).toEqual({
+      mimeType: 'application/json',
+      text: '{"name":"Ada"}',
+    });
+    expect(avatar.response.content).toEqual({
+      size: 3,
+      mimeType: 'image/png',
+      text: 'AJ//',
+      encoding: 'base64',
+    });
+  });
+
+  it('redacts sensitive headers', () => {
+    const [get] = har.log.entries;
+    expect(get.request.headers).toContainEqual({ name: 'authorization', value: '[REDACTED]' });
+    expect(get.response.headers).toContainEqual({ name: 'set-cookie', value: '[REDACTED]' });
+  });
+});
+
+suite('replaying', () => {
+  it('replays recorded responses without reaching the network', async () => {
+    const transport = new FetchClientHarTransport({ mode: 'replay', har });
+    const client = new FetchClient({ baseUrl: 'https://api.com', fetch: transport.fetch });
+
+    const post = await client.post('/users', { json: { name: 'Ada' } }).json();
+    expect(post).toMatchObject({ body: '{"name":"Ada"}' });
+    const avatar = await client.get('/avatar');
+    expect(new Uint8Array(await avatar.arrayBuffer())).toEqual(new Uint8Array([0, 159, 255]));
+    expect(avatar.url).toBe('https://api.com/avatar');
+    expect(networkMock).not.toHaveBeenCalled();
+  });
+
+  it('answers identical requests in the recorded order', async () => {
+    const transport = new FetchClientHarTransport({ mode: 'replay', har });
+    const client = new FetchClient({ baseUrl: 'https://api.com', fetch: transport.fetch });
+    const get = () => client.get('/users', { searchParams: { page: 1 } }).json();
+
+    expect(await get()).toMatchObject({ n: 1 });
+    expect(await get()).toMatchObject({ n: 2 });
+    expect(await get()).toMatchObject({ n: 2 });
+  });
+
+  it('fails on unrecorded requests in strict mode', async () => {
+    const transport = new FetchClientHarTransport({ mode: 'replay', har });
+    const client = new FetchClient({ baseUrl: 'https://api.com', fetch: transport.fetch });
+
+    await expect(client.post('/users', { json: { name: 'Bob' } })).rejects.toThrow(
+      'FetchClientHarTransport: No recorded response for POST https://api.com/users'
+    );
+  });
+
+  it('sends unrecorded requests to the network outside of strict mode', async () => {
+    const transport = new FetchClientHarTransport({
+      mode: 'replay',
+      har,
+      strict: false,
+      fetch: networkMock,
+    });
+    const client = new FetchClient({ baseUrl: 'https://api.com', fetch: transport.fetch });
+
+    await client.get('/teams');
+    expect(networkMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('matches requests with a custom matcher', async () => {
+    const transport = new FetchClientHarTransport({
+      mode: 'replay',
+      har,
+      match: (request, entry) =>
+        request.method === entry.request.method &&
+        new URL(request.url).pathname === new URL(entry.request.url).pathname,
+    });
+    const client = new FetchClient({ baseUrl: 'https://api.com', fetch: transport.fetch });
+
+    expect(await client.get('/users', { searchParams: { page: 7 } }).json()).toMatchObject({
+      n: 1,
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { name, version } from '../../package.json';
+import {
+  isSameMethod,
+  readRequestBody,
+  toRequest,
+  toResponse,
+} from './fetch-client-transport-utils';
+import {
+  FetchClientHar,
+  FetchClientHarEntry,
+  FetchClientHarNameValue,
+  FetchClientHarRequest,
+  FetchClientHarResponse,
+  FetchClientHarTransportOptions,
+} from './types';
+
+const DEFAULT_REDACTED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie'];
+const REDACTED_VALUE = '[REDACTED]';
+// Bodies are recorded decoded, so headers describing the encoded body no longer apply
+const ENCODED_BODY_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding'];
+const NULL_BODY_STATUSES = [101, 103, 204, 205, 304];
+const TEXT_MIME_TYPE_PATTERN =
+  /^(text\/|application\/([\w.-]+\+)?(json|xml|javascript|x-www-form-urlencoded)\b)/i;
+const BASE64_CHUNK_SIZE = 0x8000;
+
+/**
+ * A `fetch` replacement recording traffic to an HTTP Archive (HAR) 1.2 document, or replaying
+ * a recorded document instead of reaching the network.
+ *
+ * @example
+ * const transport = new FetchClientHarTransport({ mode: 'replay', har: JSON.parse(file) });
+ * const client = new FetchClient({ baseUrl: 'https://api.com', fetch: transport.fetch });
+ */
+export default class FetchClientHarTransport {
+  private recordings: Promise<FetchClientHarEntry | undefined>[] = [];
+  private replayed = new Set<FetchClientHarEntry>();
+  private redactedHeaders: string[];
+
+  constructor(private options: FetchClientHarTransportOptions) {
+    if (options.mode === 'replay' && !options.har) {
+      throw new Error('FetchClientHarTransport: A HAR document is required to replay requests');
+    }
+    this.redactedHeaders = (options.redactHeaders ?? DEFAULT_REDACTED_HEADERS).map((name) =>
+      name.toLowerCase()
+    );
+  }
+
+  /**
+   * The recorded traffic, once every response body has been read.
+   */
+  public async toHar(): Promise<FetchClientHar> {
+    const entries = await Promise.all(this.recordings);
+    return {
+      log: {
+        version: '1.2',
+        creator: { name, version },
+        entries: entries.filter((entry): entry is FetchClientHarEntry => entry !== undefined),
+      },
+    };
+  }
+
+  /**
+   * The transport itself, to pass as the `fetch` option of a FetchClient or a request.
+   */
+  public fetch: typeof fetch = async (input, init) => {
+    const request = toRequest(input, init);
+    const harRequest = await this.toHarRequest(request);
+    if (this.options.mode === 'record') return this.record(request, harRequest);
+
+    request.signal.throwIfAborted();
+    const entry = this.findEntry(harRequest);
+    if (entry) return this.toResponse(entry.response, request.url);
+    if (this.options.strict ?? true) {
+      throw new Error(
+        `FetchClientHarTransport: No recorded response for ${request.method} ${request.url}`
+      );
+    }
+    return this.send(request);
+  };
+
+  private send(request: Request): Promise<Response> {
+    return (this.options.fetch ?? fetch)(request);
+  }
+
+  private async record(request: Request, harRequest: FetchClientHarRequest): Promise<Response> {
+    const startedAt = Date.now();
+    const response = await this.send(request);
+    const wait = Date.now() - startedAt;
+
+    // Bodies are read in the background, so that streamed responses reach the caller right away
+    const recording = this.toHarResponse(response.clone()).then(
+      (harResponse): FetchClientHarEntry => ({
+        startedDateTime: new Date(startedAt).toISOString(),
+        time: Date.now() - startedAt,
+        request: harRequest,
+        response: harResponse,
+        cache: {},
+        timings: { send: 0, wait, receive: Date.now() - startedAt - wait },
+      }),
+      // Responses whose body could not be read, for instance once aborted, are left out
+      () => undefined
+    );
+    this.recordings.push(recording);
+    return response;
+  }
+
+  private findEntry(request: FetchClientHarRequest): FetchClientHarEntry | undefined {
+    const match = this.options.match ?? this.isMatch;
+    const entries = this.options.har?.log.entries.filter((entry) => match(request, entry)) ?? [];
+    // Identical requests are answered in the recorded order, repeating the last response
+    const entry = entries.find((item) => !this.replayed.has(item)) ?? entries.at(-1);
+    if (entry) this.replayed.add(entry);
+    return entry;
+  }
+
+  private isMatch(request: FetchClientHarRequest, entry: FetchClientHarEntry): boolean {
+    return (
+      isSameMethod(request.method, entry.request.method) &&
+      request.url === entry.request.url &&
+      (request.postData?.text ?? '') === (entry.request.postData?.text ?? '')
+    );
+  }
+
+  private toNameValues(headers: Headers): FetchClientHarNameValue[] {
+    return [...headers].map(([name, value]) => ({
+      name,
+      value: this.redactedHeaders.includes(name.toLowerCase()) ? REDACTED_VALUE : value,
+    }));
+  }
+
+  private async toHarRequest(request: Request): Promise<FetchClientHarRequest> {
+    const text = await readRequestBody(request);
+    return {
+      method: request.method,
+      url: request.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: this.toNameValues(request.headers),
+      queryString: [...new URL(request.url).searchParams].map(([name, value]) => ({ name, value })),
+      postData:
+        text === undefined
+          ? undefined
+          : { mimeType: request.headers.get('content-type') ?? '', text },
+      headersSize: -1,
+      bodySize: text === undefined ? 0 : new TextEncoder().encode(text).byteLength,
+    };
+  }
+
+  private async toHarResponse(response: Response): Promise<FetchClientHarResponse> {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const mimeType = response.headers.get('content-type') ?? '';
+    const isText = !bytes.byteLength || TEXT_MIME_TYPE_PATTERN.test(mimeType);
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: this.toNameValues(response.headers),
+      content: {
+        size: bytes.byteLength,
+        mimeType,
+        ...(isText
+          ? { text: new TextDecoder().decode(bytes) }
+          : { text: this.encodeBase64(bytes), encoding: 'base64' }),
+      },
+      redirectURL: response.headers.get('location') ?? '',
+      headersSize: -1,
+      bodySize: -1,
+    };
+  }
+
+  private toResponse(harResponse: FetchClientHarResponse, url: string): Response {
+    const headers = new Headers();
+    harResponse.headers
+      .filter(({ name }) => !ENCODED_BODY_HEADERS.includes(name.toLowerCase()))
+      .forEach(({ name, value }) => headers.append(name, value));
+
+    const { text, encoding } = harResponse.content;
+    const body =
+      text === undefined || NULL_BODY_STATUSES.includes(harResponse.status)
+        ? null
+        : encoding === 'base64'
+        ? this.decodeBase64(text)
+        : text;
+    return toResponse(
+      body,
+      { status: harResponse.status, statusText: harResponse.statusText, headers },
+      url
+    );
+  }
+
+  private encodeBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let offset = 0; offset < bytes.byteLength; offset += BASE64_CHUNK_SIZE) {
+      binary += String.fromCharCode(...bytes.subarray(offset, offset + BASE64_CHUNK_SIZE));
+    }
+    return btoa(binary);
+  }
+
+  private decodeBase64(text: string): ArrayBuffer {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let index = 0; index < binary.length; index++) bytes[index] = binary.charCodeAt(index);
+    return bytes.buffer;
+  }
+}
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, expect, it, suite, vi } from 'vitest';
+
+import FetchClientError from '../errors/fetch-client-error';
+import FetchClientTimeoutError from '../errors/fetch-client-timeout-error';
+import FetchClient from '../fetch-client';
+import FetchClientMockTransport from './fetch-client-mock-transport';
+
+let transport: FetchClientMockTransport;
+let client: FetchClient;
+
+beforeEach(() => {
+  transport = new FetchClientMockTransport();
+  client = new FetchClient({ baseUrl: 'https://api.com', fetch: transport.fetch });
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+suite('route matching', () => {
+  it('matches the method and path pattern shorthand', async () => {
+    transport.on('GET /users/:id', { json: { id: 1 } });
+    const response = await client.get('/users/1');
+    expect(await response.json()).toEqual({ id: 1 });
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(response.url).toBe('https://api.com/users/1');
+    await expect(client.post('/users/1')).rejects.toThrow('No route matches POST');
+  });
+
+  it('matches query, headers and JSON bodies', async () => {
+    transport
+      .on({ method: 'POST', url: '/users', body: { name: 'Ada' } }, { status: 201 })
+      .on({ url: '/search', query: { tags: ['a', 'b'] }, headers: { 'x-team': /^core/ } }, {});
+
+    expect((await client.post('/users', { json: { name: 'Ada' } })).status).toBe(201);
+    await client.get('/search', {
+      searchParams: { tags: ['a', 'b'], page: 2 },
+      headers: { 'X-Team': 'core-api' },
+    });
+    await expect(client.post('/users', { json: { name: 'Bob' } })).rejects.toThrow(
+      'No route matches'
+    );
+  });
+
+  it('reports unmatched requests with the registered routes', async () => {
+    transport.on('GET /users/:id', {}).on({ url: /orders/, body: 'x' }, {});
+    const error = await client.get('/teams', { searchParams: { page: 1 } }).catch((e) => e);
+    expect(error.message).toBe(
+      'FetchClientMockTransport: No route matches GET https://api.com/teams?page=1. ' +
+        'Registered routes:\n  GET /users/:id\n  * /orders/ (with body)'
+    );
+    expect(transport.calls[0].matched).toBe(false);
+  });
+});
+
+suite('responses', () => {
+  it('returns sequential responses and repeats the last one', async () => {
+    transport.on('/status', { status: 503 }, { json: 'ok' });
+    client.setDefaults({ retry: { limit: 1, delay: 0 } });
+    expect(await client.get('/status').json()).toBe('ok');
+    expect(await client.get('/status').json()).toBe('ok');
+    transport.assertCalled('GET /status', 3);
+  });
+
+  it('lets once routes take precedence until they are used up', async () => {
+    transport.on('/users', { json: [] }).once('/users', { status: 500 });
+    await expect(client.get('/users')).rejects.toThrow(FetchClientError);
+    expect(await client.get('/users').json()).toEqual([]);
+  });
+
+  it('computes responses from the call', async () => {
+    transport.on('POST /echo', (call) => new Response(call.body));
+    expect(await client.post('/echo', { body: 'hello' }).text()).toBe('hello');
+  });
+
+  it('simulates network errors, delays and timeouts', async () => {
+    transport
+      .on('/offline', { error: true })
+      .on('/slow', { delay: 500, json: 'done' })
+      .on('/hang', { delay: Infinity });
+
+    await expect(client.get('/offline')).rejects.toThrow(TypeError);
+
+    const slow = client.get('/slow').json();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(await slow).toBe('done');
+
+    const hang = client.get('/hang', { timeout: 1000 }).catch((e) => e);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await hang).toBeInstanceOf(FetchClientTimeoutError);
+  });
+});
+
+suite('call assertions', () => {
+  it('records calls and asserts on them', async () => {
+    transport.on('/users', {});
+    await client.post('/users', { json: { name: 'Ada' } });
+
+    expect(transport.getCalls('POST /users')[0].body).toBe('{"name":"Ada"}');
+    transport.assertCalled({ method: 'POST', url: '/users', body: { name: 'Ada' } }, 1);
+    transport.assertNotCalled('DELETE /users');
+    expect(() => transport.assertCalled('GET /users')).toThrow(
+      'FetchClientMockTransport: Expected GET /users to be called at least once, ' +
+        'but it was called 0 times. Requests sent:\n  POST https://api.com/users'
+    );
+  });
+
+  it('forgets routes and calls on reset', async () => {
+    transport.on('/users', {});
+    await client.get('/users');
+    transport.reset();
+    expect(transport.calls).toEqual([]);
+    await expect(client.get('/users')).rejects.toThrow('No routes are registered');
+  });
+});
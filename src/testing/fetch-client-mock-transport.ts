@@ -0,0 +1,280 @@
+import {
+  isSameMethod,
+  readRequestBody,
+  toRequest,
+  toResponse,
+} from './fetch-client-transport-utils';
+import {
+  FetchClientMockCall,
+  FetchClientMockMatcher,
+  FetchClientMockResponse,
+  FetchClientMockResponseInit,
+  FetchClientMockRoute,
+} from './types';
+
+type FetchClientMockRouteRegistration = {
+  matcher: FetchClientMockMatcher;
+  responses: FetchClientMockResponse[];
+  calls: number;
+  /**
+   * Number of requests the route responds to before being skipped.
+   */
+  limit: number;
+};
+
+const ROUTE_PATTERN = /^([A-Za-z]+)\s+(\S+)$/;
+
+/**
+ * A `fetch` replacement responding from registered routes instead of the network, and
+ * recording every request for assertions.
+ *
+ * @example
+ * const transport = new FetchClientMockTransport().on('GET /users/:id', { json: { id: 1 } });
+ * const client = new FetchClient({ baseUrl: 'https://api.com', fetch: transport.fetch });
+ */
+export default class FetchClientMockTransport {
+  private routes: FetchClientMockRouteRegistration[] = [];
+
+  /**
+   * Every request sent through the transport, in order.
+   */
+  public calls: FetchClientMockCall[] = [];
+
+  private normalizeRoute(route: FetchClientMockRoute): FetchClientMockMatcher {
+    if (typeof route !== 'string') return route;
+    const match = ROUTE_PATTERN.exec(route.trim());
+    return match ? { method: match[1], url: match[2] } : { url: route.trim() };
+  }
+
+  private register(
+    route: FetchClientMockRoute,
+    responses: FetchClientMockResponse[],
+    limit: number
+  ): this {
+    if (!responses.length) {
+      throw new Error('FetchClientMockTransport: A route needs at least one response');
+    }
+    this.routes.push({ matcher: this.normalizeRoute(route), responses, calls: 0, limit });
+    return this;
+  }
+
+  /**
+   * Responds to matching requests with the given responses in turn, repeating the last one.
+   * Routes registered later take precedence.
+   */
+  public on(route: FetchClientMockRoute, ...responses: FetchClientMockResponse[]): this {
+    return this.register(route, responses, Infinity);
+  }
+
+  /**
+   * Responds to as many matching requests as there are responses, then lets earlier routes
+   * respond again.
+   */
+  public once(route: FetchClientMockRoute, ...responses: FetchClientMockResponse[]): this {
+    return this.register(route, responses, responses.length);
+  }
+
+  /**
+   * Removes the routes and recorded calls.
+   */
+  public reset() {
+    this.routes = [];
+    this.calls = [];
+  }
+
+  /**
+   * The recorded calls matching a route, or all calls.
+   */
+  public getCalls(route?: FetchClientMockRoute): FetchClientMockCall[] {
+    if (route === undefined) return [...this.calls];
+    const matcher = this.normalizeRoute(route);
+    return this.calls.filter((call) => this.matches(matcher, call));
+  }
+
+  /**
+   * Throws unless requests matching the route were sent, exactly `times` times if given.
+   */
+  public assertCalled(route: FetchClientMockRoute, times?: number) {
+    const count = this.getCalls(route).length;
+    if (times === undefined ? count > 0 : count === times) return;
+    const expected = times === undefined ? 'at least once' : this.formatTimes(times);
+    throw new Error(
+      `FetchClientMockTransport: Expected ${this.describe(this.normalizeRoute(route))} ` +
+        `to be called ${expected}, but it was called ${this.formatTimes(count)}.` +
+        this.describeCalls()
+    );
+  }
+
+  /**
+   * Throws if requests matching the route were sent.
+   */
+  public assertNotCalled(route: FetchClientMockRoute) {
+    this.assertCalled(route, 0);
+  }
+
+  /**
+   * The transport itself, to pass as the `fetch` option of a FetchClient or a request.
+   */
+  public fetch: typeof fetch = async (input, init) => {
+    const request = toRequest(input, init);
+    const call: FetchClientMockCall = {
+      request,
+      method: request.method,
+      url: new URL(request.url),
+      headers: request.headers,
+      body: await readRequestBody(request),
+      matched: false,
+    };
+    this.calls.push(call);
+    request.signal.throwIfAborted();
+
+    // Later routes take precedence, so that tests can override shared routes
+    const route = [...this.routes]
+      .reverse()
+      .find((item) => item.calls < item.limit && this.matches(item.matcher, call));
+    if (!route) {
+      throw new Error(
+        `FetchClientMockTransport: No route matches ${call.method} ${call.url.href}` +
+          this.describeRoutes()
+      );
+    }
+    call.matched = true;
+
+    const response = route.responses[Math.min(route.calls, route.responses.length - 1)];
+    route.calls++;
+    const resolved = typeof response === 'function' ? await response(call) : response;
+    if (resolved instanceof Response) return resolved.clone();
+    return this.respond(resolved, call);
+  };
+
+  private async respond(
+    init: FetchClientMockResponseInit,
+    call: FetchClientMockCall
+  ): Promise<Response> {
+    if (init.delay) await this.wait(init.delay, call.request.signal);
+    if (init.error) {
+      throw init.error === true ? new TypeError('Failed to fetch') : init.error;
+    }
+
+    const headers = new Headers(init.headers);
+    let body = init.body ?? null;
+    if (init.json !== undefined) {
+      body = JSON.stringify(init.json);
+      if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+    }
+    return toResponse(
+      body,
+      { status: init.status ?? 200, statusText: init.statusText, headers },
+      call.url.href
+    );
+  }
+
+  private wait(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(signal.reason);
+      };
+      // An infinite delay only ends when the request is aborted
+      const timeoutId = Number.isFinite(ms)
+        ? setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+          }, ms)
+        : undefined;
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private matchesUrl(pattern: FetchClientMockMatcher['url'], url: URL): boolean {
+    if (pattern === undefined) return true;
+    if (typeof pattern === 'function') return pattern(url);
+    if (pattern instanceof RegExp) return pattern.test(url.href);
+
+    const isAbsolute = /^[a-z][a-z\d+.-]*:\/\//i.test(pattern);
+    const target = isAbsolute ? url.origin + url.pathname : url.pathname;
+    const source = pattern
+      .split(/(:[A-Za-z_][A-Za-z0-9_]*|\*)/)
+      .map((part) => {
+        if (part === '*') return '.*';
+        if (part.startsWith(':')) return '[^/]+';
+        return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    return new RegExp(`^${source}/?$`).test(target);
+  }
+
+  private matchesBody(expected: unknown, body: string | undefined): boolean {
+    if (expected === undefined) return true;
+    if (typeof expected === 'function') return expected(body ?? '');
+    if (expected instanceof RegExp) return expected.test(body ?? '');
+    if (typeof expected === 'string') return body === expected;
+    try {
+      return this.isEqual(JSON.parse(body ?? ''), expected);
+    } catch {
+      return false;
+    }
+  }
+
+  private matches(matcher: FetchClientMockMatcher, call: FetchClientMockCall): boolean {
+    if (matcher.method && !isSameMethod(matcher.method, call.method)) return false;
+    if (!this.matchesUrl(matcher.url, call.url)) return false;
+
+    const queryMatches = Object.entries(matcher.query ?? {}).every(([name, value]) => {
+      const values = call.url.searchParams.getAll(name);
+      return Array.isArray(value) ? this.isEqual(values, value) : values.includes(value);
+    });
+    if (!queryMatches) return false;
+
+    const headersMatch = Object.entries(matcher.headers ?? {}).every(([name, value]) => {
+      const header = call.headers.get(name);
+      if (header === null) return false;
+      return value instanceof RegExp ? value.test(header) : header === value;
+    });
+    if (!headersMatch) return false;
+
+    return this.matchesBody(matcher.body, call.body);
+  }
+
+  private isEqual(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+    return (
+      aKeys.length === bKeys.length &&
+      aKeys.every((key) =>
+        this.isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+      )
+    );
+  }
+
+  private formatTimes(times: number): string {
+    return times === 1 ? '1 time' : `${times} times`;
+  }
+
+  private describe(matcher: FetchClientMockMatcher): string {
+    const url = typeof matcher.url === 'function' ? '<function>' : String(matcher.url ?? '*');
+    const conditions = (['query', 'headers', 'body'] as const).filter(
+      (key) => matcher[key] !== undefined
+    );
+    const description = `${matcher.method?.toUpperCase() ?? '*'} ${url}`;
+    return conditions.length ? `${description} (with ${conditions.join(', ')})` : description;
+  }
+
+  private describeRoutes(): string {
+    if (!this.routes.length) return '. No routes are registered.';
+    const routes = this.routes.map((route) => {
+      const exhausted = route.calls >= route.limit ? ' [used up]' : '';
+      return `\n  ${this.describe(route.matcher)}${exhausted}`;
+    });
+    return `. Registered routes:${routes.join('')}`;
+  }
+
+  private describeCalls(): string {
+    if (!this.calls.length) return ' No requests were sent.';
+    const calls = this.calls.map((call) => `\n  ${call.method} ${call.url.href}`);
+    return ` Requests sent:${calls.join('')}`;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Builds the request a transport receives from the arguments of `fetch`.
+ */
+export function toRequest(input: RequestInfo | URL, init?: RequestInit): Request {
+  // Streamed bodies cannot be read without half duplex
+  return new Request(input, { ...init, duplex: 'half' } as RequestInit);
+}
+
+/**
+ * The body of a request as text, leaving the request itself unread.
+ */
+export async function readRequestBody(request: Request): Promise<string | undefined> {
+  return request.body ? request.clone().text() : undefined;
+}
+
+/**
+ * Whether two HTTP methods are the same, as methods are case-insensitive.
+ */
+export function isSameMethod(a: string, b: string): boolean {
+  return a.toUpperCase() === b.toUpperCase();
+}
+
+/**
+ * Builds a response as `fetch` returns it for the given URL.
+ */
+export function toResponse(body: BodyInit | null, init: ResponseInit, url: string): Response {
+  const response = new Response(body, init);
+  // Like fetch, expose the URL the response came from
+  Object.defineProperty(response, 'url', { value: url });
+  return response;
+}
@@ -0,0 +1,3 @@
+export { default as FetchClientHarTransport } from './fetch-client-har-transport';
+export { default as FetchClientMockTransport } from './fetch-client-mock-transport';
+export * from './types';
@@ -0,0 +1,167 @@
+/**
+ * Describes the requests a mock route responds to. Every property that is set must match.
+ */
+export interface FetchClientMockMatcher {
+  /**
+   * The HTTP method, case-insensitive. Any method matches when omitted.
+   */
+  method?: string;
+  /**
+   * A path such as `/users/:id` or `/files/*`, matched against the path of the request, or
+   * against its origin and path when the pattern is an absolute URL. A regular expression is
+   * tested against the whole URL.
+   */
+  url?: string | RegExp | ((url: URL) => boolean);
+  /**
+   * Search parameters the request must have. Other parameters are allowed.
+   */
+  query?: Record<string, string | string[]>;
+  /**
+   * Headers the request must have, by case-insensitive name. Other headers are allowed.
+   */
+  headers?: Record<string, string | RegExp>;
+  /**
+   * The body of the request: a string or regular expression matched against its text,
+   * a predicate on its text, or any other value compared with its parsed JSON.
+   */
+  body?: unknown;
+}
+
+/**
+ * A matcher, or its `'METHOD /path'` shorthand.
+ */
+export type FetchClientMockRoute = string | FetchClientMockMatcher;
+
+export interface FetchClientMockResponseInit {
+  status?: number;
+  statusText?: string;
+  headers?: HeadersInit;
+  /**
+   * A body sent as JSON, with a `Content-Type: application/json` header.
+   */
+  json?: unknown;
+  body?: BodyInit | null;
+  /**
+   * Milliseconds to wait before responding. Aborting the request, for instance when the
+   * client times out, interrupts the wait. Use `Infinity` to never respond.
+   */
+  delay?: number;
+  /**
+   * Fails the request like a network error, with the given error or a `TypeError`.
+   */
+  error?: true | Error;
+}
+
+/**
+ * A recorded request sent through the mock transport.
+ */
+export interface FetchClientMockCall {
+  request: Request;
+  method: string;
+  url: URL;
+  headers: Headers;
+  /**
+   * The text of the request body, if any.
+   */
+  body?: string;
+  /**
+   * Whether a route responded to the request.
+   */
+  matched: boolean;
+}
+
+export type FetchClientMockResponse =
+  | Response
+  | FetchClientMockResponseInit
+  | ((
+      call: FetchClientMockCall
+    ) => Response | FetchClientMockResponseInit | Promise<Response | FetchClientMockResponseInit>);
+
+export interface FetchClientHarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface FetchClientHarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: FetchClientHarNameValue[];
+  headers: FetchClientHarNameValue[];
+  queryString: FetchClientHarNameValue[];
+  postData?: { mimeType: string; text: string };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface FetchClientHarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: FetchClientHarNameValue[];
+  headers: FetchClientHarNameValue[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    /**
+     * Set to `base64` for binary bodies.
+     */
+    encoding?: string;
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface FetchClientHarEntry {
+  startedDateTime: string;
+  time: number;
+  request: FetchClientHarRequest;
+  response: FetchClientHarResponse;
+  cache: Record<string, unknown>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+/**
+ * An HTTP Archive (HAR) 1.2 document.
+ */
+export interface FetchClientHar {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: FetchClientHarEntry[];
+  };
+}
+
+export interface FetchClientHarTransportOptions {
+  /**
+   * `record` sends requests to the network and records them, `replay` serves them from `har`.
+   */
+  mode: 'record' | 'replay';
+  /**
+   * The recorded traffic to replay.
+   */
+  har?: FetchClientHar;
+  /**
+   * The fetch function requests are sent with when recording, or when replaying requests
+   * that were not recorded outside of strict mode.
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+  /**
+   * Whether replaying a request that was not recorded fails instead of reaching the network.
+   * @default true
+   */
+  strict?: boolean;
+  /**
+   * Names of the request and response headers whose values are replaced when recording.
+   * @default ['authorization', 'proxy-authorization', 'cookie', 'set-cookie']
+   */
+  redactHeaders?: string[];
+  /**
+   * Determines whether a recorded entry answers a request, both given in HAR form.
+   * By default, the method, URL and body must be equal.
+   */
+  match?: (request: FetchClientHarRequest, entry: FetchClientHarEntry) => boolean;
+}
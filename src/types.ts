@@ -1,23 +1,344 @@
+import type FetchClientTimeoutError from './errors/fetch-client-timeout-error';
+
 export type ValueOrCallback<T> = T | ((value: T) => T);
 
 export type URLSearchParamsInit = ConstructorParameters<typeof URLSearchParams>[0];
 
+export type FetchClientSearchParamValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined
+  | FetchClientSearchParamValue[]
+  | { [key: string]: FetchClientSearchParamValue };
+
+/**
+ * Search parameters as an object, whose arrays, nested objects and dates are serialized
+ * by the `searchParamsSerializer`.
+ */
+export type FetchClientSearchParamsObject = { [key: string]: FetchClientSearchParamValue };
+
+export type FetchClientSearchParams = URLSearchParamsInit | FetchClientSearchParamsObject;
+
+export interface FetchClientSearchParamsSerializerOptions {
+  /**
+   * How arrays are serialized: `repeat` as `a=1&a=2`, `brackets` as `a[]=1&a[]=2`,
+   * `comma` as `a=1,2`.
+   * @default 'repeat'
+   */
+  arrayFormat?: 'repeat' | 'brackets' | 'comma';
+  /**
+   * Whether null values are left out. Otherwise they are sent as empty values.
+   * Undefined values are always left out.
+   * @default true
+   */
+  skipNull?: boolean;
+  /**
+   * Formats dates.
+   * @default (date) => date.toISOString()
+   */
+  serializeDate?: (date: Date) => string;
+}
+
+export interface FetchClientRequestEvent {
+  /**
+   * The request being executed, after beforeRequest hooks have been applied.
+   */
+  request: FetchClientRequestWithURL;
+  /**
+   * Milliseconds elapsed since the request was started.
+   */
+  duration: number;
+}
+
+export interface FetchClientAttemptEvent extends FetchClientRequestEvent {
+  /**
+   * Zero-based attempt number, where 0 is the initial attempt.
+   */
+  attempt: number;
+}
+
+export interface FetchClientAttemptEndEvent extends FetchClientAttemptEvent {
+  /**
+   * Milliseconds elapsed since the current attempt was started.
+   */
+  attemptDuration: number;
+}
+
+export interface FetchClientRetryEvent extends FetchClientAttemptEndEvent {
+  /**
+   * The error that caused the attempt to fail.
+   */
+  error: unknown;
+  /**
+   * Milliseconds to wait before the next attempt.
+   */
+  delay: number;
+}
+
+export interface FetchClientTimeoutEvent extends FetchClientAttemptEndEvent {
+  error: FetchClientTimeoutError;
+  /**
+   * The timeout that was exceeded, in milliseconds.
+   */
+  timeout: number;
+}
+
+export interface FetchClientResponseEvent extends FetchClientAttemptEndEvent {
+  response: Response;
+}
+
+export interface FetchClientErrorEvent extends FetchClientAttemptEndEvent {
+  error: unknown;
+}
+
+export interface FetchClientRequestEndEvent extends FetchClientRequestEvent {
+  /**
+   * Total number of attempts made, including the initial one.
+   */
+  attempts: number;
+  /**
+   * The final response, if the request succeeded.
+   */
+  response?: Response;
+  /**
+   * The final error, if the request failed.
+   */
+  error?: unknown;
+}
+
+export type FetchClientCircuitState = 'closed' | 'open' | 'half-open';
+
+export interface FetchClientCircuitStateChangeEvent {
+  /**
+   * The circuit that changed, which is the request origin by default.
+   */
+  key: string;
+  previousState: FetchClientCircuitState;
+  state: FetchClientCircuitState;
+}
+
 export type FetchClientEventEmitterEventMap = {
   onDefaultsChanged: (defaults: FetchClientDefaults) => void;
+  /**
+   * Emitted once per fetch call, before the first attempt.
+   */
+  onRequestStart: (event: FetchClientRequestEvent) => void;
+  /**
+   * Emitted before each attempt, including the initial one.
+   */
+  onAttemptStart: (event: FetchClientAttemptEvent) => void;
+  /**
+   * Emitted when a failed attempt is retried, once the delay has elapsed and the beforeRetry
+   * hooks have let the retry go ahead.
+   */
+  onRetry: (event: FetchClientRetryEvent) => void;
+  /**
+   * Emitted when an attempt exceeds the configured timeout.
+   */
+  onTimeout: (event: FetchClientTimeoutEvent) => void;
+  /**
+   * Emitted for every response received, including error statuses.
+   */
+  onResponse: (event: FetchClientResponseEvent) => void;
+  /**
+   * Emitted for every failed attempt, whether or not it is retried.
+   */
+  onError: (event: FetchClientErrorEvent) => void;
+  /**
+   * Emitted once per fetch call, after it has either resolved or rejected.
+   */
+  onRequestEnd: (event: FetchClientRequestEndEvent) => void;
+  /**
+   * Emitted when a circuit of the circuit breaker opens, closes or becomes half-open.
+   */
+  onCircuitStateChange: (event: FetchClientCircuitStateChangeEvent) => void;
 };
 
+export type FetchClientBackoffStrategy = 'exponential' | 'linear' | 'decorrelated-jitter';
+
+export interface FetchClientBackoffOptions {
+  /**
+   * The strategy used to compute the delay between attempts.
+   *
+   * - `exponential`: `base * factor ** attempt`
+   * - `linear`: `base + base * factor * attempt`
+   * - `decorrelated-jitter`: a random value between `base` and `previousDelay * factor`
+   * @default 'exponential'
+   */
+  strategy?: FetchClientBackoffStrategy;
+  /**
+   * The delay for the first retry, in milliseconds.
+   * @default 300
+   */
+  base?: number;
+  /**
+   * The multiplier applied between attempts.
+   * @default 2
+   */
+  factor?: number;
+  /**
+   * The maximum delay between attempts, in milliseconds.
+   * @default 30000
+   */
+  max?: number;
+  /**
+   * Whether to randomize the computed delay between 0 and its value ("full jitter").
+   * Has no effect on the `decorrelated-jitter` strategy, which is always randomized.
+   * @default false
+   */
+  jitter?: boolean;
+}
+
 export interface FetchClientRetryOptions {
   limit: number;
+  /**
+   * A fixed delay in milliseconds, or a function returning the delay for a given attempt.
+   * Takes precedence over `backoff`.
+   */
   delay?: number | ((attempt: number, error: unknown) => number);
+  /**
+   * A declarative backoff strategy used when `delay` is not provided.
+   */
+  backoff?: FetchClientBackoffOptions;
+  /**
+   * Whether to wait for the duration in the `Retry-After` header of 429 and 503 responses
+   * instead of the computed delay.
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+  /**
+   * The longest `Retry-After` delay in milliseconds to wait for. Requests asked to wait longer
+   * are not retried, and fail with the error of the last attempt.
+   * @default 60000
+   */
+  maxRetryAfter?: number;
+  /**
+   * HTTP methods retried by the default policy. Ignored when `retryOn` is provided.
+   * @default ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE']
+   */
+  methods?: string[];
+  /**
+   * Response status codes retried by the default policy. Ignored when `retryOn` is provided.
+   * @default [408, 425, 429, 500, 502, 503, 504]
+   */
+  statusCodes?: number[];
+  /**
+   * A custom predicate to determine whether a failed attempt should be retried.
+   *
+   * When omitted, only idempotent methods are retried, and only on network errors (errors the
+   * `fetch` function rejects with), timeouts and the configured `statusCodes`.
+   * @param attempt Zero-based number of the attempt that failed.
+   * @param error The error that caused the attempt to fail.
+   * @returns True if the request should be retried, false otherwise.
+   */
   retryOn?: (attempt: number, error: unknown) => boolean;
 }
 
+/**
+ * Problem details of an error response, as defined by RFC 9457.
+ */
+export interface FetchClientProblemDetails {
+  /**
+   * A URI reference identifying the problem type.
+   */
+  type?: string;
+  /**
+   * A short, human-readable summary of the problem type.
+   */
+  title?: string;
+  /**
+   * The HTTP status code generated by the origin server.
+   */
+  status?: number;
+  /**
+   * A human-readable explanation specific to this occurrence of the problem.
+   */
+  detail?: string;
+  /**
+   * A URI reference identifying the specific occurrence of the problem.
+   */
+  instance?: string;
+  /**
+   * Extension members.
+   */
+  [extension: string]: unknown;
+}
+
 export interface FetchClientResponse<ResponseBody = unknown, RequestBody = BodyInit>
   extends Response {
   request: FetchClientRequest<RequestBody>;
   json: () => Promise<ResponseBody>;
 }
 
+export type FetchClientResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer';
+
+export interface FetchClientValidationIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+export type FetchClientStandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<FetchClientValidationIssue> };
+
+/**
+ * A validator compatible with the Standard Schema specification (https://standardschema.dev),
+ * as implemented by Zod, Valibot, ArkType and others.
+ */
+export interface FetchClientStandardSchema<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => FetchClientStandardSchemaResult<Output> | Promise<FetchClientStandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+/**
+ * Either a Standard Schema validator or a parser function that returns the validated data
+ * and throws if it is invalid.
+ */
+export type FetchClientResponseSchema<ResponseBody = unknown> =
+  | FetchClientStandardSchema<unknown, ResponseBody>
+  | ((data: unknown) => ResponseBody | Promise<ResponseBody>);
+
+export interface FetchClientResponsePromise<ResponseBody = unknown, RequestBody = BodyInit>
+  extends Promise<FetchClientResponse<ResponseBody, RequestBody>> {
+  /**
+   * Resolves to the response body parsed as JSON.
+   * Resolves to undefined for 204 responses and empty bodies.
+   */
+  json: () => Promise<ResponseBody>;
+  /**
+   * Resolves to the response body as text.
+   */
+  text: () => Promise<string>;
+  /**
+   * Resolves to the response body as a Blob.
+   */
+  blob: () => Promise<Blob>;
+  /**
+   * Resolves to the response body as an ArrayBuffer.
+   */
+  arrayBuffer: () => Promise<ArrayBuffer>;
+  /**
+   * Resolves to the response body parsed according to the request's `responseType`.
+   */
+  data: () => Promise<ResponseBody>;
+  /**
+   * Iterates over the rows of a newline-delimited JSON (NDJSON, JSON Lines) body as they
+   * are received. The body is only read as fast as the rows are consumed, and leaving the
+   * loop or aborting the request's signal cancels it.
+   * @throws FetchClientError if a line is not valid JSON, with its line number.
+   */
+  ndjson: <Row = ResponseBody>() => AsyncIterableIterator<Row>;
+}
+
 export type BeforeRequestHook<RequestBody = BodyInit> = (
   request: FetchClientRequestWithURL<RequestBody>
 ) =>
@@ -33,6 +354,25 @@ export type AfterResponseHook<RequestBody = BodyInit> = (
   response: Response
 ) => Response | Promise<Response> | void | Promise<void> | undefined | Promise<undefined>;
 
+export type BeforeErrorHook<RequestBody = BodyInit> = (
+  error: unknown,
+  request: FetchClientRequestWithURL<RequestBody>
+) => Error | Promise<Error> | void | Promise<void> | undefined | Promise<undefined>;
+
+export type BeforeRetryHook<RequestBody = BodyInit> = (
+  request: FetchClientRequestWithURL<RequestBody>,
+  error: unknown,
+  attempt: number
+) =>
+  | FetchClientRequestWithURL<RequestBody>
+  | Promise<FetchClientRequestWithURL<RequestBody>>
+  | false
+  | Promise<false>
+  | void
+  | Promise<void>
+  | undefined
+  | Promise<undefined>;
+
 export type FetchClientHookMap = {
   /**
    * A hook that is called before the request is sent.
@@ -46,9 +386,288 @@ export type FetchClientHookMap = {
    * @returns The modified response object.
    */
   afterResponse: AfterResponseHook;
+  /**
+   * A hook that is called before a failed request rejects.
+   * @param error The error about to be thrown.
+   * @param request The request object.
+   * @returns An error to throw instead.
+   */
+  beforeError: BeforeErrorHook;
+  /**
+   * A hook that is called before a failed attempt is retried, after the retry delay.
+   * @param request The request object.
+   * @param error The error of the failed attempt.
+   * @param attempt The number of the failed attempt, starting at 0.
+   * @returns The request object for the next attempt, or false to stop retrying.
+   */
+  beforeRetry: BeforeRetryHook;
 };
 
-export interface FetchClientRequest<RequestBody = BodyInit> extends RequestInit {
+/**
+ * Passes the request on to the rest of the pipeline. May be called zero, one or many times.
+ */
+export type FetchClientMiddlewareNext<RequestBody = BodyInit> = (
+  request: FetchClientRequestWithURL<RequestBody>
+) => Promise<Response>;
+
+/**
+ * A function wrapping the rest of the request pipeline, Koa-style.
+ * @param request The request object.
+ * @param next Runs the rest of the pipeline with the given request.
+ * @returns The response, either from `next` or synthesized by the middleware.
+ */
+export type FetchClientMiddleware<RequestBody = BodyInit> = (
+  request: FetchClientRequestWithURL<RequestBody>,
+  next: FetchClientMiddlewareNext<RequestBody>
+) => Response | Promise<Response>;
+
+/**
+ * The built-in middlewares, in the order they run from the outside in:
+ * - `beforeRequest` runs the beforeRequest hooks.
+ * - `dedupe` shares in-flight requests.
+ * - `retry` runs the attempt loop and rejects error responses.
+ * - `auth` sends the access token and replays requests rejected with an expired one.
+ * - `afterResponse` runs the afterResponse hooks on each attempt.
+ * - `httpCache` serves fresh responses from the HTTP cache.
+ * - `circuitBreaker` rejects requests while their circuit is open.
+ * - `queue` waits for a rate limit token and a concurrency slot.
+ * - `timeout` aborts attempts that take too long.
+ */
+export type FetchClientBuiltInMiddleware =
+  | 'beforeRequest'
+  | 'dedupe'
+  | 'retry'
+  | 'auth'
+  | 'afterResponse'
+  | 'httpCache'
+  | 'circuitBreaker'
+  | 'queue'
+  | 'timeout';
+
+export interface FetchClientMiddlewareOptions {
+  /**
+   * Runs the middleware right before the given built-in middleware, so it wraps it.
+   * @default 'retry'
+   */
+  before?: FetchClientBuiltInMiddleware;
+  /**
+   * Runs the middleware right after the given built-in middleware, so it is wrapped by it.
+   * Takes precedence over `before`.
+   */
+  after?: FetchClientBuiltInMiddleware;
+}
+
+export interface FetchClientDedupeOptions {
+  /**
+   * HTTP methods whose concurrent identical requests share a single network call.
+   * @default ['GET', 'HEAD']
+   */
+  methods?: string[];
+  /**
+   * Request headers that are part of the deduplication key, in addition to the method and URL.
+   * @default ['accept', 'authorization']
+   */
+  headers?: string[];
+  /**
+   * A custom function to compute the deduplication key of a request.
+   * Requests with the same key, timeout and retry options share a single network call while
+   * it is in flight.
+   */
+  key?: (request: FetchClientRequestWithURL) => string;
+}
+
+export interface FetchClientCacheEntry {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: ArrayBuffer;
+  /**
+   * Values of the request headers listed in the response's Vary header.
+   */
+  vary: Record<string, string | null>;
+  /**
+   * Timestamp (in milliseconds) of when the response was stored or last revalidated.
+   */
+  storedAt: number;
+}
+
+/**
+ * A storage backend for cached responses, such as memory, IndexedDB or the file system.
+ */
+export interface FetchClientCacheStore {
+  get: (
+    key: string
+  ) => FetchClientCacheEntry | undefined | Promise<FetchClientCacheEntry | undefined>;
+  set: (key: string, entry: FetchClientCacheEntry) => void | Promise<void>;
+  delete: (key: string) => void | Promise<void>;
+  clear?: () => void | Promise<void>;
+}
+
+export interface FetchClientHttpCacheOptions {
+  /**
+   * The store used to persist cached responses.
+   * Defaults to an in-memory LRU store shared by every request of the client.
+   */
+  store?: FetchClientCacheStore;
+}
+
+export interface FetchClientQueueStats {
+  /**
+   * Maximum number of requests allowed in flight at the same time.
+   */
+  concurrency: number;
+  /**
+   * Number of requests currently in flight.
+   */
+  active: number;
+  /**
+   * Number of requests waiting in the queue.
+   */
+  pending: number;
+  /**
+   * Average time, in milliseconds, that started requests have waited in the queue.
+   */
+  averageWaitTime: number;
+  /**
+   * Time, in milliseconds, that the oldest pending request has been waiting.
+   */
+  longestWaitTime: number;
+}
+
+export interface FetchClientRateLimitOptions {
+  /**
+   * Maximum number of requests per interval, which is also the size of each token bucket.
+   */
+  limit: number;
+  /**
+   * The interval, in milliseconds, over which `limit` tokens are refilled.
+   * @default 1000
+   */
+  interval?: number;
+  /**
+   * A function returning the bucket a request belongs to.
+   * Requests for which it returns undefined are not rate limited.
+   * @default (request) => new URL(request.url).host
+   */
+  key?: (request: FetchClientRequestWithURL) => string | undefined;
+  /**
+   * Whether RateLimit-Remaining and RateLimit-Reset response headers (or their X-RateLimit-*
+   * equivalents) should adjust the bucket of the request.
+   * @default true
+   */
+  useResponseHeaders?: boolean;
+}
+
+export interface FetchClientAuthOptions {
+  /**
+   * Returns the current access token, or nothing to send the request without one.
+   */
+  getToken: () => string | null | undefined | Promise<string | null | undefined>;
+  /**
+   * Obtains a new access token. Concurrent requests failing with the same token
+   * share a single call.
+   */
+  refreshToken: () => string | Promise<string>;
+  /**
+   * The scheme prefixed to the token in the Authorization header, or an empty string
+   * to send the token alone.
+   * @default 'Bearer'
+   */
+  scheme?: string;
+  /**
+   * A function to determine whether a response means the token should be refreshed
+   * and the request replayed.
+   * @default (response) => response.status === 401
+   */
+  shouldRefresh?: (response: Response) => boolean;
+}
+
+export interface FetchClientProgressEvent {
+  /**
+   * Number of bytes transferred so far.
+   */
+  loaded: number;
+  /**
+   * Total number of bytes, when known from the body or the `Content-Length` header.
+   */
+  total?: number;
+  /**
+   * Percentage of the total transferred so far, when the total is known.
+   */
+  percent?: number;
+  /**
+   * Average transfer rate in bytes per second.
+   */
+  rate: number;
+}
+
+/**
+ * Serializes request bodies to, and deserializes response bodies from, a content type.
+ */
+export interface FetchClientBodySerializer {
+  /**
+   * Serializes the `payload` of a request whose Content-Type header is this content type.
+   */
+  serialize?: (payload: unknown) => BodyInit;
+  /**
+   * Deserializes the body of a response of this content type, for the `data()` helper
+   * and the `data` of error responses.
+   */
+  deserialize?: (response: Response) => unknown | Promise<unknown>;
+}
+
+export type FetchClientMultipartValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | Blob
+  | null
+  | undefined
+  | (string | number | boolean | Date | Blob | null | undefined)[];
+
+export interface FetchClientCircuitBreakerOptions {
+  /**
+   * The failure rate, between 0 and 1, from which the circuit opens.
+   * @default 0.5
+   */
+  failureRateThreshold?: number;
+  /**
+   * Number of recorded requests required before the failure rate is evaluated.
+   * @default 10
+   */
+  minimumRequests?: number;
+  /**
+   * Number of most recent requests the failure rate is computed from.
+   * @default 20
+   */
+  windowSize?: number;
+  /**
+   * Milliseconds an open circuit waits before letting trial requests through (half-open).
+   * @default 30000
+   */
+  cooldown?: number;
+  /**
+   * Number of concurrent trial requests allowed while half-open.
+   * @default 1
+   */
+  halfOpenRequests?: number;
+  /**
+   * A function returning the circuit a request belongs to.
+   * Requests for which it returns undefined bypass the circuit breaker.
+   * @default (request) => new URL(request.url).origin
+   */
+  key?: (request: FetchClientRequestWithURL) => string | undefined;
+  /**
+   * A function to determine whether the outcome of an attempt counts as a failure.
+   * @default Network errors, timeouts and 5xx responses.
+   */
+  isFailure?: (result: { response?: Response; error?: unknown }) => boolean;
+}
+
+export interface FetchClientRequest<RequestBody = BodyInit, ResponseBody = unknown>
+  extends RequestInit {
   /**
    * A custom fetch function to be used for the request.
    */
@@ -57,10 +676,53 @@ export interface FetchClientRequest<RequestBody = BodyInit> extends RequestInit
    * The request body parsed as JSON.
    */
   json?: RequestBody;
+  /**
+   * The request body sent as `application/x-www-form-urlencoded`, serialized like
+   * `searchParams`.
+   */
+  form?: FetchClientSearchParams;
+  /**
+   * The request body sent as `multipart/form-data`. Blob and File values are sent as files,
+   * arrays as repeated fields, and null or undefined values are left out.
+   */
+  multipart?: Record<string, FetchClientMultipartValue>;
+  /**
+   * The request body serialized by the body serializer registered for the Content-Type
+   * header of the request. Its type is not tied to `RequestBody`, so that options shared
+   * between calls can be spread into typed calls.
+   * @throws Error if the request has no Content-Type, or no serializer is registered for it.
+   */
+  payload?: unknown;
+  /**
+   * Called as the request body is sent. Blob, ArrayBuffer and string bodies are streamed
+   * in chunks to report their progress, and are streamed anew for each attempt.
+   */
+  onUploadProgress?: (event: FetchClientProgressEvent) => void;
+  /**
+   * Called as the response body is read, however it is consumed.
+   */
+  onDownloadProgress?: (event: FetchClientProgressEvent) => void;
   /**
    * The search parameters to be appended to the request URL.
    */
-  searchParams?: URLSearchParamsInit;
+  searchParams?: FetchClientSearchParams;
+  /**
+   * Serializes search parameters given as an object, either with the built-in serializer
+   * configured by options, or with a custom function.
+   */
+  searchParamsSerializer?:
+    | FetchClientSearchParamsSerializerOptions
+    | ((searchParams: FetchClientSearchParamsObject) => URLSearchParamsInit);
+  /**
+   * Values for the `:name` and `{name}` placeholders of the URL, encoded with
+   * `encodeURIComponent`. The request fails before being sent if a placeholder has no value.
+   */
+  pathParams?: Record<string, string | number>;
+  /**
+   * The URL template the request was built from, such as `/users/:id`. Set automatically
+   * when `pathParams` are given, so that events and metrics can group requests by route.
+   */
+  pathTemplate?: string;
   /**
    * The base URL to be used for the request.
    */
@@ -73,6 +735,42 @@ export interface FetchClientRequest<RequestBody = BodyInit> extends RequestInit
    * @default false
    */
   timeout?: false | number;
+  /**
+   * Whether the time spent waiting in the concurrency queue counts towards the timeout.
+   * @default false
+   */
+  timeoutIncludesQueue?: boolean;
+  /**
+   * The priority of the request in the concurrency queue. Higher values are sent first.
+   * Defaults to 1, 0 or -1 for a `priority` of `high`, `auto` or `low` respectively.
+   * @default 0
+   */
+  queuePriority?: number;
+  /**
+   * The expected type of the response body, used by the `data()` helper
+   * and to set the Accept header when none is provided.
+   * @default 'json'
+   */
+  responseType?: FetchClientResponseType;
+  /**
+   * A schema used to validate the response body after it is parsed as JSON
+   * by the `json()` and `data()` helpers. The type of the response body is inferred from it,
+   * while untyped schemas, like those of options shared between calls, are accepted by any call.
+   * @throws FetchClientValidationError if the response body does not match the schema.
+   */
+  schema?: FetchClientResponseSchema<ResponseBody> | FetchClientResponseSchema;
+  /**
+   * Whether concurrent identical requests should share a single network call.
+   * Each caller receives its own clone of the response.
+   * @default false
+   */
+  dedupe?: boolean | FetchClientDedupeOptions;
+  /**
+   * Whether GET responses should be cached according to their Cache-Control, Expires,
+   * ETag and Last-Modified headers, and revalidated with conditional requests.
+   * @default false
+   */
+  httpCache?: boolean | FetchClientHttpCacheOptions;
   /**
    * Retry options for the request.
    */
@@ -85,6 +783,14 @@ export interface FetchClientRequest<RequestBody = BodyInit> extends RequestInit
    * @returns True if the response should be treated as an error, false otherwise.
    */
   isResponseError?: (response: Response) => boolean;
+  /**
+   * A function parsing the body of error responses into the `data` of the thrown
+   * FetchClientError, or false to leave the body unread.
+   * By default, JSON bodies (including `application/problem+json`) are parsed.
+   * @param response A copy of the error response, whose body may be read.
+   * @returns The parsed error body.
+   */
+  parseErrorBody?: false | ((response: Response) => unknown | Promise<unknown>);
   /**
    * A custom merge strategy for searchParams when provided in setDefaults.
    * If set to null, it reverts to the default merge strategy.
@@ -116,15 +822,216 @@ export interface FetchClientRequest<RequestBody = BodyInit> extends RequestInit
   resolveUrl?: null | ((url?: string | URL, baseUrl?: string) => URL);
 }
 
-export interface FetchClientRequestWithURL<RequestBody = BodyInit>
-  extends FetchClientRequest<RequestBody> {
+export interface FetchClientRequestWithURL<RequestBody = BodyInit, ResponseBody = unknown>
+  extends FetchClientRequest<RequestBody, ResponseBody> {
   url: URL | string;
 }
 
+/**
+ * Search parameters of a route, serialized by the `searchParamsSerializer`.
+ */
+export type FetchClientRouteQuery = FetchClientSearchParamsObject;
+
+/**
+ * The types of a single route of a route map.
+ */
+export interface FetchClientRouteDefinition {
+  /**
+   * The path parameters. Inferred from the `:name` segments of the path when omitted.
+   */
+  params?: Record<string, string | number>;
+  /**
+   * The search parameters.
+   */
+  query?: FetchClientRouteQuery;
+  /**
+   * The JSON request body.
+   */
+  body?: unknown;
+  /**
+   * The response body.
+   */
+  response?: unknown;
+}
+
+/**
+ * Route definitions keyed by method and path, e.g. `'GET /users/:id'`.
+ */
+export type FetchClientRouteMap = Record<string, FetchClientRouteDefinition>;
+
+/**
+ * Extracts the names of the `:name` path parameters of a path.
+ */
+export type FetchClientRouteParamNames<Path extends string> =
+  Path extends `${string}:${infer Param}/${infer Rest}`
+    ? Param | FetchClientRouteParamNames<`/${Rest}`>
+    : Path extends `${string}:${infer Param}`
+    ? Param
+    : never;
+
+export type FetchClientRouteParams<
+  Definition extends FetchClientRouteDefinition,
+  Route extends string
+> = Definition extends { params: infer Params }
+  ? Params
+  : Record<
+      FetchClientRouteParamNames<Route extends `${string} ${infer Path}` ? Path : Route>,
+      string | number
+    >;
+
+export type FetchClientRouteBody<Definition extends FetchClientRouteDefinition> =
+  Definition extends { body: infer Body } ? Body : never;
+
+export type FetchClientRouteResponse<Definition extends FetchClientRouteDefinition> =
+  Definition extends { response: infer ResponseBody } ? ResponseBody : unknown;
+
+/**
+ * The options of a typed route call, where `params`, `searchParams` and `json`
+ * are required whenever the route definition requires them.
+ */
+export type FetchClientRouteOptions<
+  Definition extends FetchClientRouteDefinition,
+  Route extends string
+> = Omit<
+  FetchClientRequest<FetchClientRouteBody<Definition>, FetchClientRouteResponse<Definition>>,
+  'method' | 'body' | 'json' | 'searchParams'
+> &
+  (keyof FetchClientRouteParams<Definition, Route> extends never
+    ? { params?: undefined }
+    : { params: FetchClientRouteParams<Definition, Route> }) &
+  (Definition extends { query: infer Query }
+    ? {} extends Query
+      ? { searchParams?: Query }
+      : { searchParams: Query }
+    : { searchParams?: undefined }) &
+  (Definition extends { body: infer Body }
+    ? undefined extends Body
+      ? { json?: Body }
+      : { json: Body }
+    : { json?: undefined });
+
+/**
+ * The `call` method of a client typed with a route map.
+ */
+export interface FetchClientRouteCaller<Routes extends FetchClientRouteMap> {
+  call<Route extends keyof Routes & string>(
+    route: Route,
+    ...options: {} extends FetchClientRouteOptions<Routes[Route], Route>
+      ? [options?: FetchClientRouteOptions<Routes[Route], Route>]
+      : [options: FetchClientRouteOptions<Routes[Route], Route>]
+  ): FetchClientResponsePromise<
+    FetchClientRouteResponse<Routes[Route]>,
+    FetchClientRouteBody<Routes[Route]>
+  >;
+}
+
+/**
+ * The options of an untyped route call.
+ */
+export interface FetchClientCallInit<RequestBody = unknown, ResponseBody = unknown>
+  extends Omit<
+    FetchClientRequest<RequestBody, ResponseBody>,
+    'method' | 'searchParams' | 'pathParams' | 'pathTemplate'
+  > {
+  params?: Record<string, string | number>;
+  searchParams?: FetchClientSearchParams;
+}
+
+/**
+ * An event received from a `text/event-stream` response.
+ */
+export interface FetchClientServerSentEvent {
+  /**
+   * The event type, `message` unless set by an `event:` field.
+   */
+  event: string;
+  /**
+   * The `data:` fields of the event, joined by line feeds.
+   */
+  data: string;
+  /**
+   * The last event ID received, sent as `Last-Event-ID` when reconnecting.
+   */
+  id: string;
+  /**
+   * The reconnection delay last requested by the server in a `retry:` field, if any.
+   */
+  retry?: number;
+}
+
+export interface FetchClientSseInit extends Omit<FetchClientRequest, 'json' | 'responseType'> {
+  /**
+   * Whether to reconnect when the connection is lost. Reconnections wait for the delay sent
+   * by the server in a `retry:` field, or else the delay of the `retry` options, and are
+   * limited by the `retry` options, if any.
+   * @default true
+   */
+  reconnect?: boolean;
+  /**
+   * Called with the response of each successful connection.
+   */
+  onOpen?: (response: FetchClientResponse) => void;
+  /**
+   * Called with each event received.
+   */
+  onEvent?: (event: FetchClientServerSentEvent) => void;
+  /**
+   * Called with each error, whether or not a reconnection follows.
+   */
+  onError?: (error: unknown) => void;
+}
+
 export interface FetchClientInit
-  extends Omit<FetchClientRequest<BodyInit>, 'json' | 'body' | 'method' | 'signal'> {
+  extends Omit<
+    FetchClientRequest<BodyInit>,
+    | 'json'
+    | 'form'
+    | 'multipart'
+    | 'payload'
+    | 'body'
+    | 'method'
+    | 'signal'
+    | 'pathParams'
+    | 'pathTemplate'
+    | 'onUploadProgress'
+    | 'onDownloadProgress'
+  > {
   headers?: HeadersInit;
-  searchParams?: URLSearchParamsInit;
+  /**
+   * Maximum number of requests in flight at the same time. Additional requests are queued
+   * by priority. Each attempt of a retried request takes a slot of its own.
+   * @default Infinity
+   */
+  concurrency?: number;
+  /**
+   * Token bucket rate limiting. Requests are delayed, not rejected, until a token is available.
+   * Each attempt of a retried request takes a token of its own.
+   */
+  rateLimit?: FetchClientRateLimitOptions;
+  /**
+   * Circuit breaker options. While the circuit of an origin is open, its requests fail fast
+   * with a FetchClientCircuitOpenError instead of being sent.
+   */
+  circuitBreaker?: FetchClientCircuitBreakerOptions;
+  /**
+   * Token authentication. The token is sent in the Authorization header of every attempt,
+   * and requests rejected with a 401 are replayed once after refreshing it.
+   */
+  auth?: FetchClientAuthOptions;
+  /**
+   * Body serializers keyed by content type, such as `application/msgpack`. Serializers set
+   * with setDefaults are added to the ones already registered.
+   */
+  bodySerializers?: Record<string, FetchClientBodySerializer>;
+}
+
+export interface FetchClientExtendOptions {
+  /**
+   * Whether later setDefaults calls on the parent are replayed on the child,
+   * also emitting the child's onDefaultsChanged event.
+   * @default false
+   */
+  inheritDefaultsChanges?: boolean;
 }
 
 export interface FetchClientDefaults extends FetchClientInit {
@@ -1,7 +1,11 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"], // Entry point of the library
+  entry: {
+    index: "src/index.ts",
+    openapi: "src/openapi/index.ts",
+    testing: "src/testing/index.ts",
+  }, // Entry points of the library
   format: ["cjs", "esm"], // Generate for old Node and modern Browsers
   dts: true, // Generate TypeScript declaration files
   splitting: false, // Disable code splitting